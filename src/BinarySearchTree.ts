@@ -1,32 +1,128 @@
+import { Comparator, createDefaultComparator } from "./Comparator";
+import { RangeError } from "./Errors";
+import {
+  NodeAdapter,
+  NodeBuilder,
+  Reviver,
+  SerializedNode,
+  deserializeNodes,
+  nodesFromJSON,
+  nodesToJSON,
+  serializeNodes,
+} from "./TreeCodec";
+import {
+  AsciiOptions,
+  DotOptions,
+  renderAscii,
+  renderDot,
+} from "./TreeRenderer";
+
+export type { Comparator } from "./Comparator";
+export type { Reviver, SerializedNode } from "./TreeCodec";
+export type { AsciiLayout, AsciiOptions, DotOptions } from "./TreeRenderer";
+
+/**
+ * Balancing strategy applied by the tree on every insertion and removal
+ * - `"none"`: plain BST, shape depends on insertion order
+ * - `"avl"`: AVL rotations keep the height logarithmic
+ */
+export type BalanceMode = "none" | "avl";
+
+/**
+ * Bound inclusiveness for range queries (both bounds are inclusive by default)
+ */
+export interface RangeOptions {
+  /** Whether values equal to the lower bound are included */
+  loInclusive?: boolean;
+
+  /** Whether values equal to the upper bound are included */
+  hiInclusive?: boolean;
+}
+
+/**
+ * Options for bulk insertion
+ */
+export interface BatchOptions {
+  /**
+   * Batch length from which the values are sorted and merged with the
+   * existing contents in O(n + m log m), producing a balanced tree,
+   * instead of being inserted one by one (defaults to never)
+   */
+  mergeThreshold?: number;
+}
+
+/**
+ * Monoid describing a value summarised over every subtree
+ * (e.g. sum, min, max or any associative combination)
+ * @template T The type of data stored in the tree
+ * @template A The type of the aggregated value
+ */
+export interface Aggregator<T, A> {
+  /** Aggregate of an empty range, neutral for combine */
+  identity: A;
+
+  /** Aggregate of a single value */
+  lift(value: T): A;
+
+  /**
+   * Associative combination of two adjacent ranges, left before right
+   * Commutativity is not required: values are combined in key order
+   */
+  combine(left: A, right: A): A;
+}
+
 /**
- * Comparator function type for comparing two values
- * @template T The type of values being compared
- * @param a First value to compare
- * @param b Second value to compare
- * @returns Negative if a < b, positive if a > b, zero if equal
+ * Construction options for a BinarySearchTree
+ * @template T The type of data stored in the tree
+ * @template A The type of the aggregated value, if any
  */
-type Comparator<T> = (a: T, b: T) => number;
+export interface BSTOptions<T, A = unknown> {
+  /** Custom comparator function (defaults to the built-in comparator) */
+  compareFn?: Comparator<T>;
+
+  /** Balancing strategy (defaults to `"none"`) */
+  balance?: BalanceMode;
+
+  /** Keep equal values as a counted multiset instead of ignoring them */
+  multiset?: boolean;
+
+  /** Subtree aggregate maintained on every update, see `aggregate()` */
+  aggregate?: Aggregator<T, A>;
+}
 
 /**
  * @internal
  * Optimized Node class with caching and memory efficiency
  * @template T The type of data stored in the node
+ * @template A The type of the subtree aggregate, if the tree has one
  */
-class BSTNode<T> {
+class BSTNode<T, A = never> {
   /** @internal The data stored in this node */
   public value: T;
 
   /** @internal Reference to the left child node */
-  public left: BSTNode<T> | null = null;
+  public left: BSTNode<T, A> | null = null;
 
   /** @internal Reference to the right child node */
-  public right: BSTNode<T> | null = null;
+  public right: BSTNode<T, A> | null = null;
+
+  /** @internal Multiplicity of the value (always 1 outside multiset mode) */
+  public count: number = 1;
 
   /** @internal Cached height value for performance optimization */
   private _cachedHeight: number = 0;
 
-  /** @internal Flag to track if cached height is valid */
-  private _heightValid: boolean = true;
+  /** @internal Cached number of values (with multiplicity) in the subtree */
+  private _cachedSize: number = 1;
+
+  /** @internal Cached aggregate of the subtree, when the tree has one */
+  private _cachedAggregate: A | undefined = undefined;
+
+  /** @internal Flag to track if cached height and size are valid */
+  private _cacheValid: boolean = true;
+
+  /** @internal Aggregator of the owning tree */
+  public aggregator: Aggregator<T, A> | null;
 
   /**
    * @internal
@@ -34,12 +130,19 @@ class BSTNode<T> {
    * @param value The data to store in the node
    * @param left Optional left child node
    * @param right Optional right child node
+   * @param aggregator Optional aggregator of the owning tree
    */
-  constructor(value: T, left?: BSTNode<T> | null, right?: BSTNode<T> | null) {
+  constructor(
+    value: T,
+    left?: BSTNode<T, A> | null,
+    right?: BSTNode<T, A> | null,
+    aggregator?: Aggregator<T, A> | null,
+  ) {
     this.value = value;
     this.left = left || null;
     this.right = right || null;
-    this._updateHeight();
+    this.aggregator = aggregator || null;
+    this.update();
   }
 
   /**
@@ -66,29 +169,98 @@ class BSTNode<T> {
    * @returns The height of the subtree rooted at this node
    */
   getHeight(): number {
-    if (!this._heightValid) {
-      this._updateHeight();
+    if (!this._cacheValid) {
+      this.update();
     }
     return this._cachedHeight;
   }
 
   /**
    * @internal
-   * Invalidates the cached height, forcing recalculation
+   * Gets the cached subtree size of this node
+   * @returns The number of values (with multiplicity) in the subtree
+   */
+  getSize(): number {
+    if (!this._cacheValid) {
+      this.update();
+    }
+    return this._cachedSize;
+  }
+
+  /**
+   * @internal
+   * Gets the cached aggregate of this node's subtree
+   * @returns The aggregate of every value (with multiplicity) in the subtree
+   */
+  getAggregate(): A {
+    if (!this._cacheValid) {
+      this.update();
+    }
+    return this._cachedAggregate!;
+  }
+
+  /**
+   * @internal
+   * Aggregates this node's own occurrences, by repeated squaring
+   * @returns The value lifted and combined count times
+   */
+  getOwnAggregate(): A {
+    const { identity, lift, combine } = this.aggregator!;
+    let result = identity;
+    let power = lift(this.value);
+
+    for (let n = this.count; n > 0; n >>= 1) {
+      if (n & 1) result = combine(result, power);
+      if (n > 1) power = combine(power, power);
+    }
+
+    return result;
+  }
+
+  /**
+   * @internal
+   * Invalidates the cached height and size, forcing recalculation
+   */
+  invalidate(): void {
+    this._cacheValid = false;
+  }
+
+  /**
+   * @internal
+   * Gets the balance factor (left height minus right height)
+   * @returns A value in [-1, 1] for an AVL-balanced node
    */
-  invalidateHeight(): void {
-    this._heightValid = false;
+  getBalanceFactor(): number {
+    const leftHeight = this.left ? this.left.getHeight() : -1;
+    const rightHeight = this.right ? this.right.getHeight() : -1;
+    return leftHeight - rightHeight;
   }
 
   /**
    * @internal
-   * Updates the cached height based on children
+   * Updates the cached height and size based on children
    */
-  private _updateHeight(): void {
+  update(): void {
     const leftHeight = this.left ? this.left.getHeight() : -1;
     const rightHeight = this.right ? this.right.getHeight() : -1;
     this._cachedHeight = 1 + Math.max(leftHeight, rightHeight);
-    this._heightValid = true;
+    this._cachedSize =
+      this.count +
+      (this.left ? this.left.getSize() : 0) +
+      (this.right ? this.right.getSize() : 0);
+
+    if (this.aggregator) {
+      const { identity, combine } = this.aggregator;
+      this._cachedAggregate = combine(
+        combine(
+          this.left ? this.left.getAggregate() : identity,
+          this.getOwnAggregate(),
+        ),
+        this.right ? this.right.getAggregate() : identity,
+      );
+    }
+
+    this._cacheValid = true;
   }
 
   /**
@@ -99,8 +271,12 @@ class BSTNode<T> {
     this.value = undefined as any;
     this.left = null;
     this.right = null;
+    this.count = 1;
+    this.aggregator = null;
+    this._cachedAggregate = undefined;
     this._cachedHeight = 0;
-    this._heightValid = true;
+    this._cachedSize = 1;
+    this._cacheValid = true;
   }
 }
 
@@ -109,32 +285,49 @@ class BSTNode<T> {
  * Features:
  * - Object pooling for reduced GC pressure
  * - Height caching for O(1) height queries
+ * - Subtree size caching for O(height) order-statistic queries
  * - Iterative operations to prevent stack overflow
- * - Bulk operations for batch processing
+ * - Optional AVL self-balancing for guaranteed O(log n) operations
+ * - Bulk operations for batch processing, with O(n) balanced construction
+ * - Lazy traversal iterators with mutation detection
+ * - Optional multiset mode counting equal values
+ * - Optional user-defined subtree aggregates for O(height) range folds
  * - Type-safe generic implementation
  *
  * @template T The type of data stored in the tree
  */
-export class BinarySearchTree<T> {
+export class BinarySearchTree<T, A = unknown> {
   /** Root node of the tree */
-  private _root: BSTNode<T> | null = null;
+  private _root: BSTNode<T, A> | null = null;
 
-  /** Number of nodes in the tree */
+  /** Number of values in the tree (with multiplicity) */
   private _size: number = 0;
 
   /** Comparator function for ordering elements */
   private readonly _compareFn: Comparator<T>;
 
+  /** Balancing strategy applied on insertion and removal */
+  private readonly _balance: BalanceMode;
+
+  /** Whether equal values are counted rather than ignored */
+  private readonly _multiset: boolean;
+
+  /** Subtree aggregate maintained on the nodes, if any */
+  private readonly _aggregator: Aggregator<T, A> | null;
+
+  /** Modification counter used to detect mutation during iteration */
+  private _modCount: number = 0;
+
   // Node pool for memory optimization
   /** @internal Pool of reusable node objects */
-  private static readonly _nodePool: BSTNode<any>[] = [];
+  private static readonly _nodePool: BSTNode<any, any>[] = [];
 
   /** @internal Maximum size of the node pool */
   private static readonly MAX_POOL_SIZE = 100;
 
   /**
    * Creates a new Binary Search Tree
-   * @param compareFn Optional custom comparator function
+   * @param compareFnOrOptions Optional custom comparator function or options object
    * @param rootValue Optional initial root value
    * @example
    * ```typescript
@@ -145,10 +338,27 @@ export class BinarySearchTree<T> {
    * const personTree = new BinarySearchTree<Person>(
    *   (a, b) => a.age - b.age
    * );
+   *
+   * // Self-balancing AVL tree
+   * const avlTree = new BinarySearchTree<number>({ balance: "avl" });
+   *
+   * // Sorted bag keeping duplicates
+   * const bag = new BinarySearchTree<number>({ multiset: true });
    * ```
    */
-  constructor(compareFn?: Comparator<T>, rootValue?: T) {
-    this._compareFn = compareFn || this._getDefaultComparator();
+  constructor(
+    compareFnOrOptions?: Comparator<T> | BSTOptions<T, A>,
+    rootValue?: T,
+  ) {
+    const options: BSTOptions<T, A> =
+      typeof compareFnOrOptions === "function"
+        ? { compareFn: compareFnOrOptions }
+        : compareFnOrOptions || {};
+
+    this._compareFn = options.compareFn || createDefaultComparator<T>();
+    this._balance = options.balance || "none";
+    this._multiset = options.multiset || false;
+    this._aggregator = options.aggregate || null;
 
     if (rootValue !== undefined) {
       this._root = this._createNode(rootValue);
@@ -157,7 +367,8 @@ export class BinarySearchTree<T> {
   }
 
   /**
-   * Gets the number of nodes in the tree
+   * Gets the number of values in the tree
+   * In multiset mode, equal values are counted with their multiplicity
    * @returns The size of the tree
    */
   get size(): number {
@@ -180,6 +391,22 @@ export class BinarySearchTree<T> {
     return this._root ? this._root.getHeight() : -1;
   }
 
+  /**
+   * Gets the balancing strategy of the tree
+   * @returns The balance mode given at construction
+   */
+  get balance(): BalanceMode {
+    return this._balance;
+  }
+
+  /**
+   * Checks if the tree keeps duplicate values
+   * @returns True if the tree was created in multiset mode
+   */
+  get isMultiset(): boolean {
+    return this._multiset;
+  }
+
   /**
    * Gets the root value of the tree
    * @returns The root value or null if empty
@@ -190,6 +417,7 @@ export class BinarySearchTree<T> {
 
   /**
    * Inserts a value into the tree
+   * Duplicates are ignored, unless the tree is a multiset
    * @param value The value to insert
    * @throws Error if value is null or undefined
    * @example
@@ -207,6 +435,7 @@ export class BinarySearchTree<T> {
     if (this.isEmpty) {
       this._root = this._createNode(value);
       this._size = 1;
+      this._modCount++;
       return;
     }
 
@@ -215,20 +444,64 @@ export class BinarySearchTree<T> {
 
   /**
    * Inserts multiple values into the tree efficiently
+   * Large batches can be sorted and merged instead of inserted one by one
    * @param values Array of values to insert
+   * @param options Optional bulk insertion settings
+   * @throws Error if a value is null or undefined
    * @example
    * ```typescript
    * tree.insertBatch([10, 5, 15, 3, 7, 12, 18]);
+   *
+   * // Sort and merge batches of 1000 values or more
+   * tree.insertBatch(bigBatch, { mergeThreshold: 1000 });
    * ```
    */
-  insertBatch(values: T[]): void {
-    for (const value of values) {
-      this.insert(value);
+  insertBatch(values: T[], options: BatchOptions = {}): void {
+    const mergeThreshold = options.mergeThreshold ?? Infinity;
+
+    if (values.length === 0 || values.length < mergeThreshold) {
+      for (const value of values) {
+        this.insert(value);
+      }
+      return;
+    }
+
+    if (values.some((value) => value == null)) {
+      throw new Error("Cannot insert null or undefined value");
     }
+
+    const batch = [...values].sort(this._compareFn);
+    const merged = this._mergeSorted(this.inOrderTraversal(), batch);
+
+    this._loadSorted(merged, false, "BinarySearchTree.insertBatch");
+  }
+
+  /**
+   * Merges the values of another tree into this one in O(n + m)
+   * Both sorted traversals are merged and the result is rebuilt balanced;
+   * the other tree is left untouched
+   * @param other Tree ordered by the same comparator
+   * @throws Error if the trees disagree on the ordering; this tree is then
+   * left unchanged
+   * @example
+   * ```typescript
+   * index.mergeFrom(otherIndex);
+   * ```
+   */
+  mergeFrom(other: BinarySearchTree<T, A>): void {
+    if (other.isEmpty) return;
+
+    const merged = this._mergeSorted(
+      this.inOrderTraversal(),
+      other.inOrderTraversal(),
+    );
+
+    this._loadSorted(merged, false, "BinarySearchTree.mergeFrom");
   }
 
   /**
    * Removes a value from the tree
+   * In multiset mode, a single occurrence is removed
    * @param value The value to remove
    * @returns True if the value was found and removed, false otherwise
    * @example
@@ -241,9 +514,60 @@ export class BinarySearchTree<T> {
       return false;
     }
 
-    const initialSize = this._size;
-    this._root = this._removeIterative(this._root, value);
-    return this._size < initialSize;
+    return this._removeIterative(value, false) > 0;
+  }
+
+  /**
+   * Removes a single occurrence of a value
+   * Alias of `remove`, reads better on multisets
+   * @param value The value to remove
+   * @returns True if an occurrence was found and removed
+   */
+  removeOne(value: T): boolean {
+    return this.remove(value);
+  }
+
+  /**
+   * Removes every occurrence of a value
+   * @param value The value to remove
+   * @returns The number of occurrences removed
+   * @example
+   * ```typescript
+   * bag.insertBatch([1, 1, 1, 2]);
+   * bag.removeAll(1); // 3
+   * ```
+   */
+  removeAll(value: T): number {
+    if (this.isEmpty || value == null) {
+      return 0;
+    }
+
+    return this._removeIterative(value, true);
+  }
+
+  /**
+   * Counts the occurrences of a value
+   * @param value The value to count
+   * @returns The multiplicity of value (0 or 1 outside multiset mode)
+   */
+  count(value: T): number {
+    if (value == null) {
+      return 0;
+    }
+
+    let current = this._root;
+
+    while (current) {
+      const comparison = this._compareFn(value, current.value);
+
+      if (comparison === 0) {
+        return current.count;
+      }
+
+      current = comparison < 0 ? current.left : current.right;
+    }
+
+    return 0;
   }
 
   /**
@@ -319,365 +643,1852 @@ export class BinarySearchTree<T> {
   }
 
   /**
-   * Performs in-order traversal of the tree
-   * @returns Array of values in sorted order
+   * Finds the greatest value less than or equal to a given value
+   * @param value The value to compare against
+   * @returns The floor value or null if none exists
    * @example
    * ```typescript
-   * const sorted = tree.inOrderTraversal(); // [3, 5, 7, 10, 12, 15, 18]
+   * tree.insertBatch([10, 20, 30]);
+   * tree.floor(25); // 20
    * ```
    */
-  inOrderTraversal(): T[] {
-    const result: T[] = [];
-    this._inOrderIterative(result);
-    return result;
+  floor(value: T): T | null {
+    return this._floorNode(value, true)?.value ?? null;
   }
 
   /**
-   * Converts the tree to a sorted array
-   * @returns Array of all values in ascending order
+   * Finds the smallest value greater than or equal to a given value
+   * @param value The value to compare against
+   * @returns The ceiling value or null if none exists
    */
-  toArray(): T[] {
-    return this.inOrderTraversal();
+  ceiling(value: T): T | null {
+    return this._ceilingNode(value, true)?.value ?? null;
   }
 
   /**
-   * Removes all nodes from the tree
-   * @example
-   * ```typescript
-   * tree.clear();
-   * console.log(tree.isEmpty); // true
-   * ```
+   * Finds the greatest value strictly less than a given value
+   * @param value The value to compare against
+   * @returns The lower value or null if none exists
    */
-  clear(): void {
-    this._clearRecursive(this._root);
-    this._root = null;
-    this._size = 0;
+  lower(value: T): T | null {
+    return this._floorNode(value, false)?.value ?? null;
   }
 
   /**
-   * Validates that the tree maintains BST properties
-   * @returns True if the tree is a valid BST
-   * @example
-   * ```typescript
-   * console.log(tree.isValidBST()); // Should always be true for properly used tree
-   * ```
+   * Finds the smallest value strictly greater than a given value
+   * @param value The value to compare against
+   * @returns The higher value or null if none exists
    */
-  isValidBST(): boolean {
-    return this._validateBST(this._root, null, null);
+  higher(value: T): T | null {
+    return this._ceilingNode(value, false)?.value ?? null;
   }
 
-  // ================================
-  // PRIVATE HELPER METHODS
-  // ================================
+  /**
+   * Finds the in-order successor of a value stored in the tree
+   * Unlike `higher`, the value itself must be present
+   * @param value A value contained in the tree
+   * @returns The next value in order, or null if value is absent or the maximum
+   */
+  successor(value: T): T | null {
+    return this.contains(value) ? this.higher(value) : null;
+  }
 
   /**
-   * @internal
-   * Creates or retrieves a node from the object pool
+   * Finds the in-order predecessor of a value stored in the tree
+   * Unlike `lower`, the value itself must be present
+   * @param value A value contained in the tree
+   * @returns The previous value in order, or null if value is absent or the minimum
    */
-  private _createNode(value: T): BSTNode<T> {
-    const pooledNode = BinarySearchTree._nodePool.pop();
-    if (pooledNode) {
-      pooledNode.value = value;
-      pooledNode.left = null;
-      pooledNode.right = null;
-      pooledNode.invalidateHeight();
-      return pooledNode as BSTNode<T>;
-    }
-    return new BSTNode(value);
+  predecessor(value: T): T | null {
+    return this.contains(value) ? this.lower(value) : null;
   }
 
   /**
-   * @internal
-   * Returns a node to the object pool for reuse
+   * Removes and returns the minimum value
+   * @returns The removed minimum or null if tree is empty
    */
-  private _returnNode(node: BSTNode<T>): void {
-    if (BinarySearchTree._nodePool.length < BinarySearchTree.MAX_POOL_SIZE) {
-      node.reset();
-      BinarySearchTree._nodePool.push(node);
+  pollFirst(): T | null {
+    const min = this.findMin();
+    if (min !== null) {
+      this.remove(min);
     }
+    return min;
   }
 
   /**
-   * @internal
-   * Updates height cache for a node and its ancestors
+   * Removes and returns the maximum value
+   * @returns The removed maximum or null if tree is empty
    */
-  private _updateHeightChain(node: BSTNode<T> | null): void {
-    while (node) {
-      node.invalidateHeight();
-      // In a more complex implementation, we'd traverse up to parent
-      // For now, height is recalculated when accessed
-      break;
+  pollLast(): T | null {
+    const max = this.findMax();
+    if (max !== null) {
+      this.remove(max);
     }
+    return max;
   }
 
   /**
-   * @internal
-   * Iterative insertion to prevent stack overflow
+   * Finds the deepest node having both values in its subtree
+   * @param a A value contained in the tree
+   * @param b Another value contained in the tree
+   * @returns The value of the lowest common ancestor, or null if a or b is absent
+   * @example
+   * ```typescript
+   * tree.insertBatch([50, 30, 70, 20, 40]);
+   * tree.lowestCommonAncestor(20, 40); // 30
+   * tree.lowestCommonAncestor(20, 70); // 50
+   * ```
    */
-  private _insertIterative(value: T): void {
-    let current = this._root;
-    let parent: BSTNode<T> | null = null;
-    let isLeftChild = false;
-
-    // Find insertion point
-    while (current) {
-      parent = current;
-      const comparison = this._compareFn(value, current.value);
+  lowestCommonAncestor(a: T, b: T): T | null {
+    const split = this._splitPoint(a, b);
+    if (!split) return null;
 
-      if (comparison === 0) {
-        // Duplicate found - ignore
-        return;
-      }
+    const found =
+      this._depthFrom(split, a) !== -1 && this._depthFrom(split, b) !== -1;
+    return found ? split.value : null;
+  }
 
-      if (comparison < 0) {
-        current = current.left;
-        isLeftChild = true;
-      } else {
-        current = current.right;
-        isLeftChild = false;
-      }
-    }
+  /**
+   * Lists the values met on the way from the root to a value
+   * @param value The value to locate
+   * @returns The root-to-node values, or an empty array if value is absent
+   * @example
+   * ```typescript
+   * tree.insertBatch([50, 30, 70, 40]);
+   * tree.pathTo(40); // [50, 30, 40]
+   * ```
+   */
+  pathTo(value: T): T[] {
+    const path: T[] = [];
+    if (value == null) return path;
 
-    // Insert new node
-    const newNode = this._createNode(value);
-    if (isLeftChild) {
-      parent!.left = newNode;
-    } else {
-      parent!.right = newNode;
+    let current = this._root;
+    while (current) {
+      path.push(current.value);
+      const comparison = this._compareFn(value, current.value);
+      if (comparison === 0) return path;
+      current = comparison < 0 ? current.left : current.right;
     }
 
-    this._size++;
-    this._updateHeightChain(parent);
+    return [];
   }
 
   /**
-   * @internal
-   * Iterative removal implementation
+   * Gets the depth of a value (the root has depth 0)
+   * @param value The value to locate
+   * @returns The number of edges from the root, or -1 if value is absent
    */
-  private _removeIterative(
-    root: BSTNode<T> | null,
-    value: T,
-  ): BSTNode<T> | null {
-    if (!root) return null;
+  depthOf(value: T): number {
+    return this._depthFrom(this._root, value);
+  }
 
-    // Find node to remove
-    let current: BSTNode<T> | null = root;
-    let parent: BSTNode<T> | null = null;
-    let isLeftChild = false;
+  /**
+   * Counts the edges on the path between two values
+   * @param a A value contained in the tree
+   * @param b Another value contained in the tree
+   * @returns The number of edges between a and b, or -1 if either is absent
+   * @example
+   * ```typescript
+   * tree.insertBatch([50, 30, 70, 20, 40]);
+   * tree.distance(20, 70); // 3
+   * ```
+   */
+  distance(a: T, b: T): number {
+    const split = this._splitPoint(a, b);
+    if (!split) return -1;
 
-    while (current && this._compareFn(value, current.value) !== 0) {
-      parent = current;
-      const comparison = this._compareFn(value, current.value);
+    const depthA = this._depthFrom(split, a);
+    const depthB = this._depthFrom(split, b);
+    return depthA === -1 || depthB === -1 ? -1 : depthA + depthB;
+  }
 
-      if (comparison < 0) {
-        current = current.left;
-        isLeftChild = true;
-      } else {
-        current = current.right;
-        isLeftChild = false;
-      }
+  /**
+   * Returns the value at a given sorted position
+   * @param index Zero-based position in ascending order
+   * @returns The value at that position
+   * @throws {RangeError} If the index is out of bounds
+   * @example
+   * ```typescript
+   * tree.insertBatch([50, 25, 75]);
+   * tree.select(0); // 25
+   * ```
+   */
+  select(index: number): T {
+    if (!Number.isInteger(index) || index < 0 || index >= this._size) {
+      throw new RangeError(
+        `[BinarySearchTree.select] Index ${index} is out of bounds. Size: ${this._size}.`,
+      );
     }
 
-    if (!current) return root; // Not found
+    return this._selectNode(index).value;
+  }
 
-    this._size--;
-    let replacement: BSTNode<T> | null = null;
+  /**
+   * Counts the values strictly smaller than a given value
+   * The value itself does not need to be in the tree
+   * @param value The value to rank
+   * @returns The number of values less than value
+   * @example
+   * ```typescript
+   * tree.insertBatch([10, 20, 30]);
+   * tree.rank(25); // 2
+   * ```
+   */
+  rank(value: T): number {
+    return this._countBelow(value, false);
+  }
 
-    // Case 1: Node is leaf
-    if (current.isLeaf()) {
-      replacement = null;
-    }
-    // Case 2: Node has one child
-    else if (current.getChildCount() === 1) {
-      replacement = current.left || current.right;
+  /**
+   * Returns the k-th smallest value
+   * @param k One-based position in ascending order
+   * @returns The k-th smallest value
+   * @throws {RangeError} If k is not in [1, size]
+   */
+  kthSmallest(k: number): T {
+    if (!Number.isInteger(k) || k < 1 || k > this._size) {
+      throw new RangeError(
+        `[BinarySearchTree.kthSmallest] k ${k} is out of bounds. Size: ${this._size}.`,
+      );
     }
-    // Case 3: Node has two children
-    else {
-      // Find inorder successor
-      let successor = current.right!;
-      let successorParent = current;
 
-      while (successor.left) {
-        successorParent = successor;
-        successor = successor.left;
-      }
+    return this._selectNode(k - 1).value;
+  }
 
-      // Replace current's value with successor's value
-      current.value = successor.value;
+  /**
+   * Returns the k-th largest value
+   * @param k One-based position in descending order
+   * @returns The k-th largest value
+   * @throws {RangeError} If k is not in [1, size]
+   */
+  kthLargest(k: number): T {
+    if (!Number.isInteger(k) || k < 1 || k > this._size) {
+      throw new RangeError(
+        `[BinarySearchTree.kthLargest] k ${k} is out of bounds. Size: ${this._size}.`,
+      );
+    }
+
+    return this._selectNode(this._size - k).value;
+  }
+
+  /**
+   * Returns the median value
+   * For an even number of values, the lower median is returned
+   * @returns The median value or null if tree is empty
+   * @example
+   * ```typescript
+   * tree.insertBatch([1, 2, 3, 4]);
+   * tree.median(); // 2
+   * ```
+   */
+  median(): T | null {
+    if (this.isEmpty) {
+      return null;
+    }
+
+    return this._selectNode((this._size - 1) >> 1).value;
+  }
+
+  /**
+   * Lazily iterates over the values within [lo, hi] in ascending order
+   * Only the visited part of the tree is walked, so early exit is cheap
+   * @param lo Lower bound of the range
+   * @param hi Upper bound of the range
+   * @param options Bound inclusiveness (both inclusive by default)
+   * @returns An iterator over the values in range
+   * @throws {Error} If the tree is mutated during iteration
+   * @example
+   * ```typescript
+   * tree.insertBatch([10, 20, 30, 40]);
+   * [...tree.range(15, 40, { hiInclusive: false })]; // [20, 30]
+   * ```
+   */
+  range(lo: T, hi: T, options: RangeOptions = {}): IterableIterator<T> {
+    return this._rangeIterator(
+      lo,
+      hi,
+      options.loInclusive ?? true,
+      options.hiInclusive ?? true,
+      this._modCount,
+    );
+  }
+
+  /**
+   * Counts the values within [lo, hi] in O(height)
+   * @param lo Lower bound of the range
+   * @param hi Upper bound of the range
+   * @param options Bound inclusiveness (both inclusive by default)
+   * @returns The number of values in range
+   */
+  countRange(lo: T, hi: T, options: RangeOptions = {}): number {
+    if (lo == null || hi == null || this._compareFn(lo, hi) > 0) {
+      return 0;
+    }
+
+    const below = this._countBelow(hi, options.hiInclusive ?? true);
+    const excluded = this._countBelow(lo, !(options.loInclusive ?? true));
+    return Math.max(0, below - excluded);
+  }
+
+  /**
+   * Folds the values within [lo, hi] with the tree's aggregator in
+   * O(height), combining them in ascending order
+   * Omitted bounds leave the range open on that side
+   * @param lo Optional lower bound of the range
+   * @param hi Optional upper bound of the range
+   * @param options Bound inclusiveness (both inclusive by default)
+   * @returns The aggregate of the values in range (identity if none)
+   * @throws Error if the tree was created without an aggregate
+   * @example
+   * ```typescript
+   * const sums = new BinarySearchTree<number, number>({
+   *   aggregate: { identity: 0, lift: (x) => x, combine: (a, b) => a + b },
+   * });
+   * sums.insertBatch([1, 2, 3, 4, 5]);
+   * sums.aggregate(2, 4); // 9
+   * ```
+   */
+  aggregate(lo?: T, hi?: T, options: RangeOptions = {}): A {
+    if (!this._aggregator) {
+      throw new Error(
+        "[BinarySearchTree.aggregate] Tree was created without an aggregate.",
+      );
+    }
+
+    const { identity, combine } = this._aggregator;
+    const loInclusive = options.loInclusive ?? true;
+    const hiInclusive = options.hiInclusive ?? true;
+
+    if (lo != null && hi != null && this._compareFn(lo, hi) > 0) {
+      return identity;
+    }
+
+    // Descend to the topmost node in range: every value in range lies
+    // in its subtree, the smaller ones to its left and the larger to its right
+    let current = this._root;
+    while (current) {
+      if (lo != null && !this._isAbove(current.value, lo, loInclusive)) {
+        current = current.right;
+      } else if (hi != null && !this._isAbove(hi, current.value, hiInclusive)) {
+        current = current.left;
+      } else {
+        break;
+      }
+    }
+
+    if (!current) return identity;
+
+    return combine(
+      combine(
+        this._aggregateFrom(current.left, lo, loInclusive),
+        current.getOwnAggregate(),
+      ),
+      this._aggregateUpTo(current.right, hi, hiInclusive),
+    );
+  }
+
+  /**
+   * Lazily iterates in ascending order over the values whose own aggregate
+   * passes a test, skipping every subtree whose aggregate fails it
+   * The test must hold for a subtree whenever it holds for one of its
+   * values (e.g. "max >= x" over a max aggregate), so that skipped
+   * subtrees cannot hold a match
+   * @param test Predicate on aggregates
+   * @returns An iterator over the matching values
+   * @throws Error if the tree was created without an aggregate
+   * @throws {Error} If the tree is mutated during iteration
+   * @example
+   * ```typescript
+   * const maxes = new BinarySearchTree<number, number>({
+   *   aggregate: { identity: -Infinity, lift: (x) => x, combine: Math.max },
+   * });
+   * maxes.insertBatch([1, 5, 12, 30]);
+   * [...maxes.filterByAggregate((max) => max >= 10)]; // [12, 30]
+   * ```
+   */
+  filterByAggregate(test: (aggregate: A) => boolean): IterableIterator<T> {
+    if (!this._aggregator) {
+      throw new Error(
+        "[BinarySearchTree.filterByAggregate] Tree was created without an aggregate.",
+      );
+    }
+
+    return this._filterByAggregateGenerator(test, this._modCount);
+  }
+
+  /**
+   * Removes every value within [lo, hi]
+   * @param lo Lower bound of the range
+   * @param hi Upper bound of the range
+   * @param options Bound inclusiveness (both inclusive by default)
+   * @returns The number of values removed
+   */
+  removeRange(lo: T, hi: T, options: RangeOptions = {}): number {
+    const values = [...this.range(lo, hi, options)];
+    for (const value of values) {
+      this.remove(value);
+    }
+    return values.length;
+  }
+
+  /**
+   * Performs in-order traversal of the tree
+   * @returns Array of values in sorted order
+   * @example
+   * ```typescript
+   * const sorted = tree.inOrderTraversal(); // [3, 5, 7, 10, 12, 15, 18]
+   * ```
+   */
+  inOrderTraversal(): T[] {
+    const result: T[] = [];
+    this._inOrderIterative(result);
+    return result;
+  }
+
+  /**
+   * Lazily iterates over the values in ascending order
+   * @returns An iterator over the tree values
+   * @throws {Error} If the tree is mutated during iteration
+   */
+  inOrder(): IterableIterator<T> {
+    return this._inOrderGenerator(false, this._modCount, "inOrder");
+  }
+
+  /**
+   * Lazily iterates over the values in descending order
+   * @returns An iterator over the tree values
+   * @throws {Error} If the tree is mutated during iteration
+   */
+  reverseInOrder(): IterableIterator<T> {
+    return this._inOrderGenerator(true, this._modCount, "reverseInOrder");
+  }
+
+  /**
+   * Lazily iterates over the values in pre-order (node, left, right)
+   * @returns An iterator over the tree values
+   * @throws {Error} If the tree is mutated during iteration
+   */
+  preOrder(): IterableIterator<T> {
+    return this._preOrderGenerator(this._modCount);
+  }
+
+  /**
+   * Lazily iterates over the values in post-order (left, right, node)
+   * @returns An iterator over the tree values
+   * @throws {Error} If the tree is mutated during iteration
+   */
+  postOrder(): IterableIterator<T> {
+    return this._postOrderGenerator(this._modCount);
+  }
+
+  /**
+   * Lazily iterates over the values level by level (breadth-first)
+   * @returns An iterator over the tree values
+   * @throws {Error} If the tree is mutated during iteration
+   */
+  levelOrder(): IterableIterator<T> {
+    return this._levelOrderGenerator(this._modCount);
+  }
+
+  /**
+   * Allows iteration over the tree in ascending order using `for..of` syntax.
+   * Throws if the tree is mutated during iteration.
+   * @returns An iterator over the tree values
+   * @example
+   * ```typescript
+   * for (const value of tree) {
+   *   if (value > 42) break;
+   * }
+   * ```
+   */
+  [Symbol.iterator](): Iterator<T> {
+    return this._inOrderGenerator(false, this._modCount, "iterator");
+  }
+
+  /**
+   * Converts the tree to a sorted array
+   * @returns Array of all values in ascending order
+   */
+  toArray(): T[] {
+    return this.inOrderTraversal();
+  }
+
+  /**
+   * Returns a JSON-serializable, shape-preserving representation of the tree
+   * Multiset nodes holding several occurrences carry a `count`
+   * @returns Nested `{ value, left, right }` nodes, or null for an empty tree
+   */
+  toJSON(): SerializedNode<T> | null {
+    return nodesToJSON(this._root, BinarySearchTree._nodeAdapter<T, A>());
+  }
+
+  /**
+   * Encodes the tree as a compact pre-order string with "#" for empty
+   * subtrees, each value being URI-encoded JSON
+   * @returns The serialized tree, restored with `BinarySearchTree.deserialize`
+   * @example
+   * ```typescript
+   * tree.insertBatch([2, 1, 3]);
+   * tree.serialize(); // "2,1,#,#,3,#,#"
+   * ```
+   */
+  serialize(): string {
+    return serializeNodes(this._root, BinarySearchTree._nodeAdapter<T, A>());
+  }
+
+  /**
+   * Draws the tree as an ASCII diagram
+   * Multiset nodes show their multiplicity, e.g. `5 (x3)`
+   * @param options Layout (sideways by default) and label formatting
+   * @returns The diagram, or an empty string for an empty tree
+   * @example
+   * ```typescript
+   * tree.insertBatch([2, 1, 3]);
+   * console.log(tree.toString());
+   * // /-- 3
+   * // 2
+   * // \-- 1
+   * ```
+   */
+  toString(options: AsciiOptions<T> = {}): string {
+    return renderAscii(
+      this._root,
+      BinarySearchTree._nodeAdapter<T, A>(),
+      options,
+    );
+  }
+
+  /**
+   * Prints the ASCII diagram of the tree to the console
+   * @param options Layout (sideways by default) and label formatting
+   */
+  print(options: AsciiOptions<T> = {}): void {
+    console.log(this.toString(options));
+  }
+
+  /**
+   * Renders the tree as a Graphviz DOT document
+   * @param options Graph name, label formatting, and a value whose search
+   * path is highlighted when it is in the tree
+   * @returns The DOT source
+   * @example
+   * ```typescript
+   * fs.writeFileSync("tree.dot", tree.toDot({ highlight: 42 }));
+   * ```
+   */
+  toDot(options: DotOptions<T, T> = {}): string {
+    const highlighted = new Set<BSTNode<T, A>>();
+
+    if (options.highlight != null) {
+      let current = this._root;
+      const path: BSTNode<T, A>[] = [];
+
+      while (current) {
+        path.push(current);
+        const comparison = this._compareFn(options.highlight, current.value);
+        if (comparison === 0) {
+          path.forEach((node) => highlighted.add(node));
+          break;
+        }
+        current = comparison < 0 ? current.left : current.right;
+      }
+    }
+
+    return renderDot(
+      this._root,
+      BinarySearchTree._nodeAdapter<T, A>(),
+      options,
+      highlighted,
+    );
+  }
+
+  /**
+   * Removes all nodes from the tree
+   * @example
+   * ```typescript
+   * tree.clear();
+   * console.log(tree.isEmpty); // true
+   * ```
+   */
+  clear(): void {
+    this._releaseSubtree(this._root);
+    this._root = null;
+    this._size = 0;
+    this._modCount++;
+  }
+
+  /**
+   * Validates that the tree maintains BST properties
+   * For AVL trees, also checks that every node is height-balanced
+   * @returns True if the tree is a valid BST
+   * @example
+   * ```typescript
+   * console.log(tree.isValidBST()); // Should always be true for properly used tree
+   * ```
+   */
+  isValidBST(): boolean {
+    if (!this._validateOrder()) {
+      return false;
+    }
+
+    return this._balance !== "avl" || this._validateBalance(this._root) !== -2;
+  }
+
+  /**
+   * Reshapes the tree into a perfectly balanced one in O(n)
+   * Nodes are relinked in place, no value is copied or reallocated
+   * @example
+   * ```typescript
+   * tree.insertBatch([1, 2, 3, 4, 5, 6, 7]); // Degenerate chain
+   * tree.rebalance();
+   * console.log(tree.height); // 2
+   * ```
+   */
+  rebalance(): void {
+    const nodes: BSTNode<T, A>[] = [];
+    const stack: BSTNode<T, A>[] = [];
+    let current = this._root;
+
+    while (current || stack.length > 0) {
+      while (current) {
+        stack.push(current);
+        current = current.left;
+      }
+
+      current = stack.pop()!;
+      nodes.push(current);
+      current = current.right;
+    }
+
+    this._root = this._linkBalanced(nodes, 0, nodes.length - 1);
+    this._modCount++;
+  }
+
+  /**
+   * Builds a perfectly balanced tree from strictly ascending values in O(n)
+   * Multisets also accept runs of equal values, which are counted
+   * @param values Values sorted in ascending order according to the comparator
+   * @param compareFnOrOptions Optional custom comparator function or options object
+   * @returns A new tree containing the values
+   * @throws Error if the values are not ascending or contain null
+   * @example
+   * ```typescript
+   * const tree = BinarySearchTree.fromSorted([1, 2, 3, 4, 5]);
+   * console.log(tree.height); // 2
+   * ```
+   */
+  static fromSorted<T, A = unknown>(
+    values: T[],
+    compareFnOrOptions?: Comparator<T> | BSTOptions<T, A>,
+  ): BinarySearchTree<T, A> {
+    const tree = new BinarySearchTree<T, A>(compareFnOrOptions);
+    tree._loadSorted(values, true, "BinarySearchTree.fromSorted");
+    return tree;
+  }
+
+  /**
+   * Rebuilds a tree with the exact shape recorded by `toJSON`
+   * @param json The nested representation (parsed JSON)
+   * @param compareFnOrOptions Optional custom comparator function or options object
+   * @param reviver Optional function restoring each value
+   * @returns A new tree
+   * @throws Error if json is malformed, or is not a valid tree for the
+   * comparator and options (ordering, AVL balance, multiplicities)
+   * @example
+   * ```typescript
+   * const restored = BinarySearchTree.fromJSON(
+   *   JSON.parse(saved),
+   *   { balance: "avl" },
+   *   (value) => new Date(value as string),
+   * );
+   * ```
+   */
+  static fromJSON<T, A = unknown>(
+    json: SerializedNode<unknown> | null,
+    compareFnOrOptions?: Comparator<T> | BSTOptions<T, A>,
+    reviver: Reviver<T> = (value) => value as T,
+  ): BinarySearchTree<T, A> {
+    const tree = new BinarySearchTree<T, A>(compareFnOrOptions);
+    const method = "BinarySearchTree.fromJSON";
+    tree._loadShape(
+      nodesFromJSON(json, tree._nodeBuilder(method), reviver, method),
+      method,
+    );
+    return tree;
+  }
+
+  /**
+   * Rebuilds a tree with the exact shape recorded by `serialize`
+   * @param text The compact pre-order form
+   * @param compareFnOrOptions Optional custom comparator function or options object
+   * @param reviver Optional function restoring each value
+   * @returns A new tree
+   * @throws Error if text is malformed, or is not a valid tree for the
+   * comparator and options (ordering, AVL balance, multiplicities)
+   */
+  static deserialize<T, A = unknown>(
+    text: string,
+    compareFnOrOptions?: Comparator<T> | BSTOptions<T, A>,
+    reviver: Reviver<T> = (value) => value as T,
+  ): BinarySearchTree<T, A> {
+    const tree = new BinarySearchTree<T, A>(compareFnOrOptions);
+    const method = "BinarySearchTree.deserialize";
+    tree._loadShape(
+      deserializeNodes(text, tree._nodeBuilder(method), reviver, method),
+      method,
+    );
+    return tree;
+  }
+
+  /**
+   * Splits the tree around a pivot in O(height)
+   * This tree is emptied: its nodes are moved into the two results
+   * @param pivot The value to split around (does not need to be present)
+   * @returns A tree with the values < pivot and a tree with the values >= pivot
+   * @throws Error if pivot is null or undefined
+   * @example
+   * ```typescript
+   * tree.insertBatch([1, 2, 3, 4, 5]);
+   * const [low, high] = tree.split(3);
+   * low.toArray(); // [1, 2]
+   * high.toArray(); // [3, 4, 5]
+   * ```
+   */
+  split(pivot: T): [BinarySearchTree<T, A>, BinarySearchTree<T, A>] {
+    if (pivot == null) {
+      throw new Error("Cannot split on null or undefined value");
+    }
+
+    const [leftRoot, rightRoot] = this._splitNode(this._root, pivot);
+    const left = this._createEmptyLike();
+    const right = this._createEmptyLike();
+    left._adoptRoot(leftRoot);
+    right._adoptRoot(rightRoot);
+
+    this._adoptRoot(null);
+    return [left, right];
+  }
+
+  /**
+   * Concatenates two trees whose ranges do not overlap in O(height)
+   * Both trees are emptied: their nodes are moved into the result,
+   * which uses the options of the left tree
+   * @param left Tree whose values are all smaller than those of right
+   * @param right Tree whose values are all greater than those of left
+   * @returns A new tree holding the values of both trees
+   * @throws Error if the trees differ in multiset mode
+   * @throws Error if the ranges of the trees overlap
+   * @example
+   * ```typescript
+   * const joined = BinarySearchTree.join(low, high);
+   * ```
+   */
+  static join<T, A>(
+    left: BinarySearchTree<T, A>,
+    right: BinarySearchTree<T, A>,
+  ): BinarySearchTree<T, A> {
+    const result = left._createEmptyLike();
+
+    if (left._multiset !== right._multiset) {
+      throw new Error(
+        "[BinarySearchTree.join] Both trees must have the same multiset mode.",
+      );
+    }
+
+    if (
+      !left.isEmpty &&
+      !right.isEmpty &&
+      left._compareFn(left.findMax()!, right.findMin()!) >= 0
+    ) {
+      throw new Error(
+        "[BinarySearchTree.join] Left tree values must all be smaller than right tree values.",
+      );
+    }
+
+    if (right.isEmpty) {
+      result._adoptRoot(left._root);
+    } else {
+      const middle = right._detachMin();
+      result._adoptRoot(result._joinWithNode(left._root, middle, right._root));
+    }
+
+    left._adoptRoot(null);
+    right._adoptRoot(null);
+    return result;
+  }
+
+  /**
+   * Merges two trees into a new balanced tree in O(n + m)
+   * The result uses the comparator and options of a; equal values are
+   * collapsed, or their occurrences added up when a is a multiset.
+   * Both inputs are left untouched
+   * @param a First tree
+   * @param b Second tree, ordered by the same comparator
+   * @returns A new tree holding the values of both trees
+   * @example
+   * ```typescript
+   * const combined = BinarySearchTree.merge(indexA, indexB);
+   * ```
+   */
+  static merge<T, A>(
+    a: BinarySearchTree<T, A>,
+    b: BinarySearchTree<T, A>,
+  ): BinarySearchTree<T, A> {
+    const result = a._createEmptyLike();
+    result._loadSorted(
+      a._mergeSorted(a.inOrderTraversal(), b.inOrderTraversal()),
+      false,
+      "BinarySearchTree.merge",
+    );
+    return result;
+  }
+
+  // ================================
+  // PRIVATE HELPER METHODS
+  // ================================
+
+  /**
+   * @internal
+   * Creates an empty tree sharing this tree's comparator and options
+   */
+  private _createEmptyLike(): BinarySearchTree<T, A> {
+    return new BinarySearchTree<T, A>({
+      compareFn: this._compareFn,
+      balance: this._balance,
+      multiset: this._multiset,
+      aggregate: this._aggregator || undefined,
+    });
+  }
+
+  /**
+   * @internal
+   * Node access for the serialization codecs
+   */
+  private static _nodeAdapter<T, A>(): NodeAdapter<BSTNode<T, A>, T> {
+    return {
+      value: (node) => node.value,
+      count: (node) => node.count,
+      left: (node) => node.left,
+      right: (node) => node.right,
+    };
+  }
+
+  /**
+   * @internal
+   * Node factory for the serialization codecs
+   */
+  private _nodeBuilder(method: string): NodeBuilder<BSTNode<T, A>, T> {
+    return (value, count, left, right) => {
+      if (value == null) {
+        throw new Error(`[${method}] Values cannot be null or undefined.`);
+      }
+      if (count > 1 && !this._multiset) {
+        throw new Error(`[${method}] Repeated values require a multiset tree.`);
+      }
+
+      const node = this._createNode(value);
+      node.count = count;
+      node.left = left;
+      node.right = right;
+      node.update();
+      return node;
+    };
+  }
+
+  /**
+   * @internal
+   * Adopts a deserialized subtree after checking it against the comparator
+   * and balance mode
+   */
+  private _loadShape(root: BSTNode<T, A> | null, method: string): void {
+    this._adoptRoot(root);
+
+    if (!this.isValidBST()) {
+      this.clear();
+      throw new Error(
+        `[${method}] Serialized tree is not valid for this comparator and balance mode.`,
+      );
+    }
+  }
+
+  /**
+   * @internal
+   * Takes ownership of a detached subtree as the whole tree
+   */
+  private _adoptRoot(root: BSTNode<T, A> | null): void {
+    this._root = root;
+    this._size = root ? root.getSize() : 0;
+    this._modCount++;
+  }
+
+  /**
+   * @internal
+   * Creates or retrieves a node from the object pool
+   */
+  private _createNode(value: T): BSTNode<T, A> {
+    const pooledNode = BinarySearchTree._nodePool.pop();
+    if (pooledNode) {
+      pooledNode.value = value;
+      pooledNode.left = null;
+      pooledNode.right = null;
+      pooledNode.count = 1;
+      pooledNode.aggregator = this._aggregator;
+      pooledNode.invalidate();
+      return pooledNode as BSTNode<T, A>;
+    }
+    return new BSTNode(value, null, null, this._aggregator);
+  }
+
+  /**
+   * @internal
+   * Returns a node to the object pool for reuse
+   */
+  private _returnNode(node: BSTNode<T, A>): void {
+    if (BinarySearchTree._nodePool.length < BinarySearchTree.MAX_POOL_SIZE) {
+      node.reset();
+      BinarySearchTree._nodePool.push(node);
+    }
+  }
+
+  /**
+   * @internal
+   * Walks back up a search path (root first) refreshing cached heights,
+   * and performing AVL rotations when the tree is self-balancing
+   */
+  private _retrace(path: BSTNode<T, A>[]): void {
+    for (let i = path.length - 1; i >= 0; i--) {
+      const node = path[i]!;
+      node.update();
+
+      if (this._balance !== "avl") continue;
+
+      const balanced = this._rebalance(node);
+      if (balanced !== node) {
+        this._replaceChild(i > 0 ? path[i - 1]! : null, node, balanced);
+      }
+    }
+  }
+
+  /**
+   * @internal
+   * Replaces a child link of parent (or the root when parent is null)
+   */
+  private _replaceChild(
+    parent: BSTNode<T, A> | null,
+    oldChild: BSTNode<T, A>,
+    newChild: BSTNode<T, A> | null,
+  ): void {
+    if (!parent) {
+      this._root = newChild;
+    } else if (parent.left === oldChild) {
+      parent.left = newChild;
+    } else {
+      parent.right = newChild;
+    }
+  }
+
+  /**
+   * @internal
+   * Restores the AVL invariant on a node whose children are balanced
+   * @returns The new root of the subtree
+   */
+  private _rebalance(node: BSTNode<T, A>): BSTNode<T, A> {
+    const balanceFactor = node.getBalanceFactor();
+
+    if (balanceFactor > 1) {
+      // Left-Right case: straighten the left child first
+      if (node.left!.getBalanceFactor() < 0) {
+        node.left = this._rotateLeft(node.left!);
+      }
+      return this._rotateRight(node);
+    }
+
+    if (balanceFactor < -1) {
+      // Right-Left case: straighten the right child first
+      if (node.right!.getBalanceFactor() > 0) {
+        node.right = this._rotateRight(node.right!);
+      }
+      return this._rotateLeft(node);
+    }
+
+    return node;
+  }
+
+  /**
+   * @internal
+   * Rotates a subtree to the left
+   * @returns The new root of the subtree (the former right child)
+   */
+  private _rotateLeft(node: BSTNode<T, A>): BSTNode<T, A> {
+    const pivot = node.right!;
+    node.right = pivot.left;
+    pivot.left = node;
+    node.update();
+    pivot.update();
+    return pivot;
+  }
+
+  /**
+   * @internal
+   * Rotates a subtree to the right
+   * @returns The new root of the subtree (the former left child)
+   */
+  private _rotateRight(node: BSTNode<T, A>): BSTNode<T, A> {
+    const pivot = node.left!;
+    node.left = pivot.right;
+    pivot.right = node;
+    node.update();
+    pivot.update();
+    return pivot;
+  }
+
+  /**
+   * @internal
+   * Joins two subtrees around a middle node, all values of left being
+   * smaller than node and all values of right greater. In AVL mode the
+   * shorter subtree is attached along the spine of the taller one and
+   * rebalanced on the way up, in O(|height difference|)
+   * @returns The root of the joined subtree
+   */
+  private _joinWithNode(
+    left: BSTNode<T, A> | null,
+    node: BSTNode<T, A>,
+    right: BSTNode<T, A> | null,
+  ): BSTNode<T, A> {
+    if (this._balance === "avl") {
+      const leftHeight = left ? left.getHeight() : -1;
+      const rightHeight = right ? right.getHeight() : -1;
+
+      if (leftHeight > rightHeight + 1) {
+        left!.right = this._joinWithNode(left!.right, node, right);
+        left!.update();
+        return this._rebalance(left!);
+      }
+
+      if (rightHeight > leftHeight + 1) {
+        right!.left = this._joinWithNode(left, node, right!.left);
+        right!.update();
+        return this._rebalance(right!);
+      }
+    }
+
+    node.left = left;
+    node.right = right;
+    node.update();
+    return node;
+  }
+
+  /**
+   * @internal
+   * Splits a subtree into nodes < pivot and nodes >= pivot
+   * The search path is collected first, then both parts are joined back
+   * bottom-up, so degenerate shapes do not overflow the stack
+   * @returns The roots of both parts
+   */
+  private _splitNode(
+    node: BSTNode<T, A> | null,
+    pivot: T,
+  ): [BSTNode<T, A> | null, BSTNode<T, A> | null] {
+    const path: BSTNode<T, A>[] = [];
+    const below: boolean[] = [];
+
+    while (node) {
+      const isBelow = this._compareFn(node.value, pivot) < 0;
+      path.push(node);
+      below.push(isBelow);
+      node = isBelow ? node.right : node.left;
+    }
+
+    let low: BSTNode<T, A> | null = null;
+    let high: BSTNode<T, A> | null = null;
+
+    for (let i = path.length - 1; i >= 0; i--) {
+      const current = path[i]!;
+      if (below[i]) {
+        low = this._joinWithNode(current.left, current, low);
+      } else {
+        high = this._joinWithNode(high, current, current.right);
+      }
+    }
+
+    return [low, high];
+  }
+
+  /**
+   * @internal
+   * Unlinks the minimum node (with all its occurrences) and returns it
+   * The tree must not be empty
+   */
+  private _detachMin(): BSTNode<T, A> {
+    const path: BSTNode<T, A>[] = [];
+    let current = this._root!;
+
+    while (current.left) {
+      path.push(current);
+      current = current.left;
+    }
+
+    const parent = path.length > 0 ? path[path.length - 1]! : null;
+    this._replaceChild(parent, current, current.right);
+    this._size -= current.count;
+    this._modCount++;
+    this._retrace(path);
+
+    current.right = null;
+    return current;
+  }
+
+  /**
+   * @internal
+   * Iterative insertion to prevent stack overflow
+   */
+  private _insertIterative(value: T): void {
+    let current = this._root;
+    let parent: BSTNode<T, A> | null = null;
+    let isLeftChild = false;
+    const path: BSTNode<T, A>[] = [];
+
+    // Find insertion point
+    while (current) {
+      parent = current;
+      path.push(current);
+      const comparison = this._compareFn(value, current.value);
+
+      if (comparison === 0) {
+        // Duplicate found - ignore, or count it in multiset mode
+        if (this._multiset) {
+          current.count++;
+          this._size++;
+          this._modCount++;
+          this._retrace(path);
+        }
+        return;
+      }
+
+      if (comparison < 0) {
+        current = current.left;
+        isLeftChild = true;
+      } else {
+        current = current.right;
+        isLeftChild = false;
+      }
+    }
+
+    // Insert new node
+    const newNode = this._createNode(value);
+    if (isLeftChild) {
+      parent!.left = newNode;
+    } else {
+      parent!.right = newNode;
+    }
+
+    this._size++;
+    this._modCount++;
+    this._retrace(path);
+  }
+
+  /**
+   * @internal
+   * Iterative removal implementation
+   * Removes one occurrence, or the whole node when all is set
+   * @returns The number of occurrences removed
+   */
+  private _removeIterative(value: T, all: boolean): number {
+    // Find node to remove, recording its ancestors
+    let current: BSTNode<T, A> | null = this._root;
+    const path: BSTNode<T, A>[] = [];
+
+    while (current) {
+      const comparison = this._compareFn(value, current.value);
+      if (comparison === 0) break;
+
+      path.push(current);
+      current = comparison < 0 ? current.left : current.right;
+    }
+
+    if (!current) return 0; // Not found
+
+    this._modCount++;
+
+    // Multiset with remaining occurrences: only decrement the count
+    if (!all && current.count > 1) {
+      current.count--;
+      this._size--;
+      path.push(current);
+      this._retrace(path);
+      return 1;
+    }
+
+    const removed = current.count;
+    this._size -= removed;
+
+    // Case 1 & 2: Node is leaf or has one child
+    if (!current.left || !current.right) {
+      const replacement = current.left || current.right;
+      const parent = path.length > 0 ? path[path.length - 1]! : null;
+      this._replaceChild(parent, current, replacement);
+      this._returnNode(current);
+      this._retrace(path);
+      return removed;
+    }
+
+    // Case 3: Node has two children
+    // Find inorder successor
+    path.push(current);
+    let successor = current.right;
+    let successorParent = current;
+
+    while (successor.left) {
+      path.push(successor);
+      successorParent = successor;
+      successor = successor.left;
+    }
+
+    // Replace current's value with successor's value
+    current.value = successor.value;
+    current.count = successor.count;
+
+    // Remove successor (which has at most one right child)
+    if (successorParent === current) {
+      successorParent.right = successor.right;
+    } else {
+      successorParent.left = successor.right;
+    }
+
+    this._returnNode(successor);
+    this._retrace(path);
+    return removed;
+  }
+
+  /**
+   * @internal
+   * Replaces the contents with ascending values, building a balanced tree
+   * Equal neighbours are counted in multiset mode; otherwise they are
+   * rejected when strict is set, or collapsed
+   * The previous nodes are released only once the values are validated,
+   * so a rejected load leaves the tree unchanged
+   * @param method Public method name used in error messages
+   */
+  private _loadSorted(values: T[], strict: boolean, method: string): void {
+    const unique: T[] = [];
+    const counts: number[] = [];
+
+    for (let i = 0; i < values.length; i++) {
+      if (values[i] == null) {
+        throw new Error("Cannot insert null or undefined value");
+      }
+
+      const comparison =
+        i > 0 ? this._compareFn(values[i - 1]!, values[i]!) : -1;
+
+      if (comparison > 0 || (comparison === 0 && strict && !this._multiset)) {
+        throw new Error(
+          `[${method}] Values must be ${strict ? "strictly " : ""}ascending (index ${i}).`,
+        );
+      }
+
+      if (comparison !== 0) {
+        unique.push(values[i]!);
+        counts.push(1);
+      } else if (this._multiset) {
+        counts[counts.length - 1]!++;
+      }
+    }
+
+    this._releaseSubtree(this._root);
+    this._root = this._buildBalanced(unique, counts, 0, unique.length - 1);
+    this._size = counts.reduce((total, count) => total + count, 0);
+    this._modCount++;
+  }
+
+  /**
+   * @internal
+   * Merges two ascending arrays into one, keeping equal values
+   */
+  private _mergeSorted(left: T[], right: T[]): T[] {
+    const merged: T[] = [];
+    let i = 0;
+    let j = 0;
+
+    while (i < left.length && j < right.length) {
+      if (this._compareFn(left[i]!, right[j]!) <= 0) {
+        merged.push(left[i++]!);
+      } else {
+        merged.push(right[j++]!);
+      }
+    }
+
+    while (i < left.length) merged.push(left[i++]!);
+    while (j < right.length) merged.push(right[j++]!);
+    return merged;
+  }
+
+  /**
+   * @internal
+   * Relinks in-order nodes[lo..hi] into a balanced subtree
+   */
+  private _linkBalanced(
+    nodes: BSTNode<T, A>[],
+    lo: number,
+    hi: number,
+  ): BSTNode<T, A> | null {
+    if (lo > hi) return null;
+
+    const mid = lo + ((hi - lo) >> 1);
+    const node = nodes[mid]!;
+    node.left = this._linkBalanced(nodes, lo, mid - 1);
+    node.right = this._linkBalanced(nodes, mid + 1, hi);
+    node.update();
+    return node;
+  }
+
+  /**
+   * @internal
+   * Recursively builds a balanced subtree from values[lo..hi]
+   * with the matching multiplicities. Recursion depth is O(log n)
+   */
+  private _buildBalanced(
+    values: T[],
+    counts: number[],
+    lo: number,
+    hi: number,
+  ): BSTNode<T, A> | null {
+    if (lo > hi) return null;
+
+    const mid = lo + ((hi - lo) >> 1);
+    const node = this._createNode(values[mid]!);
+    node.count = counts[mid]!;
+    node.left = this._buildBalanced(values, counts, lo, mid - 1);
+    node.right = this._buildBalanced(values, counts, mid + 1, hi);
+    node.update();
+    return node;
+  }
+
+  /**
+   * @internal
+   * Iterative search to prevent stack overflow
+   */
+  private _searchIterative(value: T): T | null {
+    let current = this._root;
 
-      // Remove successor (which has at most one right child)
-      if (successorParent === current) {
-        successorParent.right = successor.right;
+    while (current) {
+      const comparison = this._compareFn(value, current.value);
+
+      if (comparison === 0) {
+        return current.value;
+      } else if (comparison < 0) {
+        current = current.left;
       } else {
-        successorParent.left = successor.right;
+        current = current.right;
       }
+    }
+
+    return null;
+  }
+
+  /**
+   * @internal
+   * Depth of value below node, found by comparator descent
+   * @returns The number of edges from node, or -1 if value is absent
+   */
+  private _depthFrom(node: BSTNode<T, A> | null, value: T): number {
+    if (value == null) return -1;
 
-      this._returnNode(successor);
-      this._updateHeightChain(successorParent);
-      return root;
+    let depth = 0;
+    while (node) {
+      const comparison = this._compareFn(value, node.value);
+      if (comparison === 0) return depth;
+
+      node = comparison < 0 ? node.left : node.right;
+      depth++;
     }
 
-    // Update parent's reference
-    if (!parent) {
-      // Removing root
-      if (current !== root) throw new Error("Logic error in removal");
-      this._returnNode(current);
-      return replacement;
+    return -1;
+  }
+
+  /**
+   * @internal
+   * Descends while a and b lie on the same side, stopping at the first
+   * node that separates them (or equals one of them)
+   * @returns That node, or null if the descent falls off the tree
+   */
+  private _splitPoint(a: T, b: T): BSTNode<T, A> | null {
+    if (a == null || b == null) return null;
+
+    let current = this._root;
+    while (current) {
+      const compareA = this._compareFn(a, current.value);
+      const compareB = this._compareFn(b, current.value);
+
+      if (compareA < 0 && compareB < 0) {
+        current = current.left;
+      } else if (compareA > 0 && compareB > 0) {
+        current = current.right;
+      } else {
+        return current;
+      }
     }
 
-    if (isLeftChild) {
-      parent.left = replacement;
-    } else {
-      parent.right = replacement;
+    return null;
+  }
+
+  /**
+   * @internal
+   * Finds the node holding the greatest value below (or equal to) value
+   */
+  private _floorNode(value: T, inclusive: boolean): BSTNode<T, A> | null {
+    if (value == null) return null;
+
+    let current = this._root;
+    let result: BSTNode<T, A> | null = null;
+
+    while (current) {
+      const comparison = this._compareFn(value, current.value);
+
+      if (comparison === 0 && inclusive) {
+        return current;
+      }
+
+      if (comparison > 0) {
+        result = current;
+        current = current.right;
+      } else {
+        current = current.left;
+      }
     }
 
-    this._returnNode(current);
-    this._updateHeightChain(parent);
-    return root;
+    return result;
   }
 
   /**
    * @internal
-   * Iterative search to prevent stack overflow
+   * Finds the node holding the smallest value above (or equal to) value
    */
-  private _searchIterative(value: T): T | null {
+  private _ceilingNode(value: T, inclusive: boolean): BSTNode<T, A> | null {
+    if (value == null) return null;
+
+    let current = this._root;
+    let result: BSTNode<T, A> | null = null;
+
+    while (current) {
+      const comparison = this._compareFn(value, current.value);
+
+      if (comparison === 0 && inclusive) {
+        return current;
+      }
+
+      if (comparison < 0) {
+        result = current;
+        current = current.left;
+      } else {
+        current = current.right;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * @internal
+   * Counts the values below value (or equal to it when inclusive)
+   */
+  private _countBelow(value: T, inclusive: boolean): number {
+    if (value == null) return 0;
+
     let current = this._root;
+    let count = 0;
 
     while (current) {
       const comparison = this._compareFn(value, current.value);
+      const leftSize = current.left ? current.left.getSize() : 0;
 
       if (comparison === 0) {
-        return current.value;
-      } else if (comparison < 0) {
+        return count + leftSize + (inclusive ? current.count : 0);
+      }
+
+      if (comparison < 0) {
         current = current.left;
       } else {
+        count += leftSize + current.count;
         current = current.right;
       }
     }
 
-    return null;
+    return count;
   }
 
   /**
    * @internal
-   * Iterative in-order traversal
+   * Checks whether value is above bound (or equal to it when inclusive)
    */
-  private _inOrderIterative(result: T[]): void {
-    if (!this._root) return;
+  private _isAbove(value: T, bound: T, inclusive: boolean): boolean {
+    const comparison = this._compareFn(value, bound);
+    return comparison > 0 || (comparison === 0 && inclusive);
+  }
+
+  /**
+   * @internal
+   * Aggregates the values of a subtree from the lower bound upwards
+   * Each node in range contributes itself and its whole right subtree,
+   * in front of what was gathered higher up
+   */
+  private _aggregateFrom(
+    node: BSTNode<T, A> | null,
+    lo: T | undefined,
+    inclusive: boolean,
+  ): A {
+    const { identity, combine } = this._aggregator!;
+    if (lo == null) return node ? node.getAggregate() : identity;
+
+    let result = identity;
+    while (node) {
+      if (this._isAbove(node.value, lo, inclusive)) {
+        const right = node.right ? node.right.getAggregate() : identity;
+        result = combine(combine(node.getOwnAggregate(), right), result);
+        node = node.left;
+      } else {
+        node = node.right;
+      }
+    }
 
-    const stack: BSTNode<T>[] = [];
-    let current: BSTNode<T> | null = this._root;
+    return result;
+  }
+
+  /**
+   * @internal
+   * Aggregates the values of a subtree up to the upper bound
+   * Mirror image of _aggregateFrom
+   */
+  private _aggregateUpTo(
+    node: BSTNode<T, A> | null,
+    hi: T | undefined,
+    inclusive: boolean,
+  ): A {
+    const { identity, combine } = this._aggregator!;
+    if (hi == null) return node ? node.getAggregate() : identity;
+
+    let result = identity;
+    while (node) {
+      if (this._isAbove(hi, node.value, inclusive)) {
+        const left = node.left ? node.left.getAggregate() : identity;
+        result = combine(result, combine(left, node.getOwnAggregate()));
+        node = node.right;
+      } else {
+        node = node.left;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * @internal
+   * Stack-based in-order walk that only descends into subtrees whose
+   * aggregate passes the test
+   */
+  private *_filterByAggregateGenerator(
+    test: (aggregate: A) => boolean,
+    expectedModCount: number,
+  ): IterableIterator<T> {
+    const stack: BSTNode<T, A>[] = [];
+    let current = this._root;
 
     while (current || stack.length > 0) {
-      // Go to leftmost node
+      while (current && test(current.getAggregate())) {
+        stack.push(current);
+        current = current.left;
+      }
+      if (stack.length === 0) return;
+
+      const node = stack.pop()!;
+      if (test(node.getOwnAggregate())) {
+        for (let i = 0; i < node.count; i++) {
+          yield node.value;
+          this._checkModCount(expectedModCount, "filterByAggregate");
+        }
+      }
+
+      current = node.right;
+    }
+  }
+
+  /**
+   * @internal
+   * Stack-based in-order walk seeded at the lower bound
+   */
+  private *_rangeIterator(
+    lo: T,
+    hi: T,
+    loInclusive: boolean,
+    hiInclusive: boolean,
+    expectedModCount: number,
+  ): IterableIterator<T> {
+    if (lo == null || hi == null) return;
+
+    const stack: BSTNode<T, A>[] = [];
+    let current = this._root;
+
+    // Seed the stack with the ancestors of the first value in range
+    while (current) {
+      const comparison = this._compareFn(current.value, lo);
+      if (comparison > 0 || (comparison === 0 && loInclusive)) {
+        stack.push(current);
+        current = current.left;
+      } else {
+        current = current.right;
+      }
+    }
+
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      const comparison = this._compareFn(node.value, hi);
+      if (comparison > 0 || (comparison === 0 && !hiInclusive)) return;
+
+      for (let i = 0; i < node.count; i++) {
+        yield node.value;
+        this._checkModCount(expectedModCount, "range");
+      }
+
+      current = node.right;
       while (current) {
         stack.push(current);
         current = current.left;
       }
+    }
+  }
 
-      // Process current node
-      current = stack.pop()!;
-      result.push(current.value);
+  /**
+   * @internal
+   * Descends using subtree sizes to the node at a sorted position
+   * The index must already be bounds-checked
+   */
+  private _selectNode(index: number): BSTNode<T, A> {
+    let current = this._root!;
 
-      // Move to right subtree
-      current = current.right;
+    while (true) {
+      const leftSize = current.left ? current.left.getSize() : 0;
+
+      if (index < leftSize) {
+        current = current.left!;
+      } else if (index >= leftSize + current.count) {
+        index -= leftSize + current.count;
+        current = current.right!;
+      } else {
+        return current;
+      }
+    }
+  }
+
+  /**
+   * @internal
+   * Throws if the tree changed since an iterator was created
+   */
+  private _checkModCount(expectedModCount: number, method: string): void {
+    if (this._modCount !== expectedModCount) {
+      throw new Error(
+        `[BinarySearchTree.${method}] Tree was mutated during iteration.`,
+      );
     }
   }
 
   /**
    * @internal
-   * Recursively clear nodes and return them to pool
+   * Stack-based in-order walk, mirrored when reverse is set
    */
-  private _clearRecursive(node: BSTNode<T> | null): void {
-    if (!node) return;
+  private *_inOrderGenerator(
+    reverse: boolean,
+    expectedModCount: number,
+    method: string,
+  ): IterableIterator<T> {
+    const stack: BSTNode<T, A>[] = [];
+    let current = this._root;
+
+    while (current || stack.length > 0) {
+      while (current) {
+        stack.push(current);
+        current = reverse ? current.right : current.left;
+      }
+
+      const node = stack.pop()!;
+      for (let i = 0; i < node.count; i++) {
+        yield node.value;
+        this._checkModCount(expectedModCount, method);
+      }
 
-    this._clearRecursive(node.left);
-    this._clearRecursive(node.right);
-    this._returnNode(node);
+      current = reverse ? node.left : node.right;
+    }
   }
 
   /**
    * @internal
-   * Validates BST property recursively
+   * Stack-based pre-order walk
    */
-  private _validateBST(
-    node: BSTNode<T> | null,
-    min: T | null,
-    max: T | null,
-  ): boolean {
-    if (!node) return true;
+  private *_preOrderGenerator(expectedModCount: number): IterableIterator<T> {
+    const stack: BSTNode<T, A>[] = this._root ? [this._root] : [];
+
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      for (let i = 0; i < node.count; i++) {
+        yield node.value;
+        this._checkModCount(expectedModCount, "preOrder");
+      }
 
-    if (min !== null && this._compareFn(node.value, min) <= 0) return false;
-    if (max !== null && this._compareFn(node.value, max) >= 0) return false;
+      // Right first so that the left subtree is visited first
+      if (node.right) stack.push(node.right);
+      if (node.left) stack.push(node.left);
+    }
+  }
 
-    return (
-      this._validateBST(node.left, min, node.value) &&
-      this._validateBST(node.right, node.value, max)
-    );
+  /**
+   * @internal
+   * Single-stack post-order walk tracking the last visited node
+   */
+  private *_postOrderGenerator(expectedModCount: number): IterableIterator<T> {
+    const stack: BSTNode<T, A>[] = [];
+    let current = this._root;
+    let lastVisited: BSTNode<T, A> | null = null;
+
+    while (current || stack.length > 0) {
+      while (current) {
+        stack.push(current);
+        current = current.left;
+      }
+
+      const node = stack[stack.length - 1]!;
+      if (node.right && node.right !== lastVisited) {
+        current = node.right;
+        continue;
+      }
+
+      stack.pop();
+      lastVisited = node;
+      for (let i = 0; i < node.count; i++) {
+        yield node.value;
+        this._checkModCount(expectedModCount, "postOrder");
+      }
+    }
+  }
+
+  /**
+   * @internal
+   * Queue-based breadth-first walk
+   */
+  private *_levelOrderGenerator(expectedModCount: number): IterableIterator<T> {
+    const queue: BSTNode<T, A>[] = this._root ? [this._root] : [];
+
+    for (let head = 0; head < queue.length; head++) {
+      const node = queue[head]!;
+      for (let i = 0; i < node.count; i++) {
+        yield node.value;
+        this._checkModCount(expectedModCount, "levelOrder");
+      }
+
+      if (node.left) queue.push(node.left);
+      if (node.right) queue.push(node.right);
+    }
   }
 
   /**
    * @internal
-   * Gets default comparator with optimized caching
+   * Iterative in-order traversal
    */
-  private _getDefaultComparator(): Comparator<T> {
-    let typeChecked = false;
-    let fastPath: ((a: T, b: T) => number) | null = null;
+  private _inOrderIterative(result: T[]): void {
+    if (!this._root) return;
+
+    const stack: BSTNode<T, A>[] = [];
+    let current: BSTNode<T, A> | null = this._root;
 
-    return (a: T, b: T): number => {
-      // Null checks first
-      if (a == null || b == null) {
-        return a == null && b == null ? 0 : a == null ? -1 : 1;
+    while (current || stack.length > 0) {
+      // Go to leftmost node
+      while (current) {
+        stack.push(current);
+        current = current.left;
       }
 
-      // Use cached fast path after first successful comparison
-      if (fastPath) {
-        return fastPath(a, b);
+      // Process current node
+      current = stack.pop()!;
+      for (let i = 0; i < current.count; i++) {
+        result.push(current.value);
       }
 
-      // Type determination (only happens once)
-      if (!typeChecked) {
-        typeChecked = true;
-        const typeA = typeof a;
-        const typeB = typeof b;
+      // Move to right subtree
+      current = current.right;
+    }
+  }
+
+  /**
+   * @internal
+   * Returns every node of a subtree to the pool, using an explicit stack
+   * so that degenerate shapes do not overflow the call stack
+   */
+  private _releaseSubtree(node: BSTNode<T, A> | null): void {
+    const stack: BSTNode<T, A>[] = node ? [node] : [];
 
-        if (typeA === typeB) {
-          switch (typeA) {
-            case "number":
-              fastPath = (x, y) =>
-                (x as unknown as number) - (y as unknown as number);
-              return fastPath(a, b);
-            case "string":
-              fastPath = (x, y) =>
-                (x as unknown as string).localeCompare(y as unknown as string);
-              return fastPath(a, b);
-            case "boolean":
-              fastPath = (x, y) =>
-                Number(x as unknown as boolean) -
-                Number(y as unknown as boolean);
-              return fastPath(a, b);
-          }
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      if (current.left) stack.push(current.left);
+      if (current.right) stack.push(current.right);
+      this._returnNode(current);
+    }
+  }
 
-          if (a instanceof Date && b instanceof Date) {
-            fastPath = (x, y) =>
-              (x as unknown as Date).getTime() -
-              (y as unknown as Date).getTime();
-            return fastPath(a, b);
-          }
+  /**
+   * @internal
+   * Checks that the in-order walk is strictly ascending, iteratively so that
+   * degenerate shapes do not overflow the stack
+   */
+  private _validateOrder(): boolean {
+    const stack: BSTNode<T, A>[] = [];
+    let current = this._root;
+    let previous: BSTNode<T, A> | null = null;
 
-          if (typeof (a as any).compare === "function") {
-            fastPath = (x, y) => (x as any).compare(y);
-            return fastPath(a, b);
-          }
-        }
+    while (current || stack.length > 0) {
+      while (current) {
+        stack.push(current);
+        current = current.left;
+      }
 
-        throw new Error(
-          `No default comparator available for type ${typeA}. ` +
-            `Please provide a custom comparator function.`,
+      const node = stack.pop()!;
+      if (previous && this._compareFn(previous.value, node.value) >= 0) {
+        return false;
+      }
+      previous = node;
+      current = node.right;
+    }
+
+    return true;
+  }
+
+  /**
+   * @internal
+   * Validates the AVL balance invariant with an iterative post-order walk
+   * @returns The actual height of the subtree, or -2 if it is unbalanced
+   */
+  private _validateBalance(root: BSTNode<T, A> | null): number {
+    const heights: number[] = [];
+    const stack: { node: BSTNode<T, A> | null; expanded: boolean }[] = [
+      { node: root, expanded: false },
+    ];
+
+    while (stack.length > 0) {
+      const frame = stack.pop()!;
+
+      if (!frame.node) {
+        heights.push(-1);
+      } else if (!frame.expanded) {
+        frame.expanded = true;
+        stack.push(
+          frame,
+          { node: frame.node.right, expanded: false },
+          { node: frame.node.left, expanded: false },
         );
+      } else {
+        const rightHeight = heights.pop()!;
+        const leftHeight = heights.pop()!;
+        if (Math.abs(leftHeight - rightHeight) > 1) return -2;
+        heights.push(1 + Math.max(leftHeight, rightHeight));
       }
+    }
 
-      throw new Error("Comparator initialization failed");
-    };
+    return heights.pop()!;
   }
 }
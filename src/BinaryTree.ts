@@ -1,3 +1,49 @@
+import { RangeError } from "./Errors";
+import { LinkedList } from "./LinkedList";
+import {
+  NodeAdapter,
+  NodeBuilder,
+  Reviver,
+  SerializedNode,
+  deserializeNodes,
+  nodesFromJSON,
+  nodesToJSON,
+  serializeNodes,
+} from "./TreeCodec";
+import {
+  AsciiOptions,
+  DotOptions,
+  renderAscii,
+  renderDot,
+} from "./TreeRenderer";
+
+export type { Reviver, SerializedNode } from "./TreeCodec";
+export type { AsciiLayout, AsciiOptions, DotOptions } from "./TreeRenderer";
+
+/**
+ * Direction taken from a node to one of its children
+ */
+export type Side = "left" | "right";
+
+/**
+ * Location of a node, as the sides taken from the root (`[]` is the root)
+ * @example
+ * ```typescript
+ * const position: Position = ["left", "right"]; // root.left.right
+ * ```
+ */
+export type Position = readonly Side[];
+
+/**
+ * Order in which the nodes of a tree are visited
+ * - `"preOrder"`: node, left subtree, right subtree
+ * - `"inOrder"`: left subtree, node, right subtree
+ * - `"postOrder"`: left subtree, right subtree, node
+ * - `"levelOrder"`: breadth-first, left to right
+ */
+export type TraversalOrder =
+  "preOrder" | "inOrder" | "postOrder" | "levelOrder";
+
 /**
  * Optimized Node class with better type safety and memory efficiency
  */
@@ -29,13 +75,19 @@ class Node<T> {
 
 /**
  * Binary Tree implementation
+ * Nodes are addressed by their position from the root, which allows
+ * building and editing arbitrary shapes (expression trees, decision trees...)
  */
 export class BinaryTree<T> {
   private root: Node<T> | null = null;
   private _size: number = 0;
+  private _modCount: number = 0;
 
   /**
    * Creates a new Binary Tree
+   * The subtrees are linked in O(1), not copied: the new tree shares their
+   * nodes, so they should not be edited afterwards (pass clones to keep
+   * them independent)
    * @param rootData - Optional root node data
    * @param leftSubtree - Optional left subtree
    * @param rightSubtree - Optional right subtree
@@ -91,16 +143,1133 @@ export class BinaryTree<T> {
     if (this.root === null) {
       this.root = new Node(data);
       this._size = 1;
+      this._modCount++;
     } else {
       this.root.data = data;
     }
   }
 
   /**
-   * Calculate height recursively
+   * Returns the data of the node at a position
+   * @param position - Sides to follow from the root
+   * @returns The node data, or null if there is no node there
+   */
+  getData(position: Position): T | null {
+    const node = this.findNode(position);
+    return node ? node.data : null;
+  }
+
+  /**
+   * Checks whether a node exists at a position
+   * @param position - Sides to follow from the root
+   */
+  has(position: Position): boolean {
+    return this.findNode(position) !== null;
+  }
+
+  /**
+   * Replaces the data of the node at a position
+   * @param position - Sides to follow from the root
+   * @param data - The new data
+   * @throws Error if there is no node at position
+   */
+  setData(position: Position, data: T): void {
+    this.locate(position, "setData", true).node!.data = data;
+  }
+
+  /**
+   * Inserts a new left child under the node at a position
+   * An existing left child becomes the left child of the new node
+   * @param position - Position of the parent node
+   * @param data - The data of the new node
+   * @throws Error if there is no node at position
+   * @example
+   * ```typescript
+   * const tree = new BinaryTree("+");
+   * tree.insertLeft([], "a");
+   * tree.insertRight([], "b"); // (a + b)
+   * ```
+   */
+  insertLeft(position: Position, data: T): void {
+    const parent = this.locate(position, "insertLeft", true).node!;
+    parent.left = new Node(data, parent.left, null);
+    this._size++;
+    this._modCount++;
+  }
+
+  /**
+   * Inserts a new right child under the node at a position
+   * An existing right child becomes the right child of the new node
+   * @param position - Position of the parent node
+   * @param data - The data of the new node
+   * @throws Error if there is no node at position
+   */
+  insertRight(position: Position, data: T): void {
+    const parent = this.locate(position, "insertRight", true).node!;
+    parent.right = new Node(data, null, parent.right);
+    this._size++;
+    this._modCount++;
+  }
+
+  /**
+   * Puts a copy of another tree at a position, which may be empty
+   * Passing null or an empty tree removes the subtree at position
+   * @param position - Position of the subtree to replace
+   * @param subtree - The replacement, copied into this tree
+   * @returns The previous subtree, as an independent tree
+   * @throws Error if the parent of position does not exist
+   */
+  replaceSubtree(
+    position: Position,
+    subtree: BinaryTree<T> | null,
+  ): BinaryTree<T> {
+    const replacement = this.copyNode(subtree ? subtree.root : null);
+    const replacementSize = subtree ? subtree.size : 0;
+    return this.swapSubtree(
+      position,
+      replacement,
+      replacementSize,
+      "replaceSubtree",
+    );
+  }
+
+  /**
+   * Removes the subtree at a position and returns it
+   * @param position - Position of the subtree to detach
+   * @returns The detached subtree (empty if there was no node)
+   * @throws Error if the parent of position does not exist
+   */
+  detach(position: Position): BinaryTree<T> {
+    return this.swapSubtree(position, null, 0, "detach");
+  }
+
+  /**
+   * Removes a single node, promoting its only child in its place
+   * @param position - Position of the node to remove
+   * @returns The data of the removed node
+   * @throws Error if there is no node at position or it has two children
+   */
+  removeNode(position: Position): T {
+    const { parent, side, node } = this.locate(position, "removeNode", true);
+
+    if (node!.left && node!.right) {
+      throw new Error(
+        "[BinaryTree.removeNode] Cannot remove a node with two children.",
+      );
+    }
+
+    this.link(parent, side, node!.left || node!.right);
+    this._size--;
+    this._modCount++;
+    return node!.data;
+  }
+
+  /**
+   * Lazily iterates over the data in pre-order (node, left, right)
+   * @throws Error if the tree is edited during iteration
+   */
+  preOrder(): IterableIterator<T> {
+    return this.traverse("preOrder");
+  }
+
+  /**
+   * Lazily iterates over the data in in-order (left, node, right)
+   * @throws Error if the tree is edited during iteration
+   */
+  inOrder(): IterableIterator<T> {
+    return this.traverse("inOrder");
+  }
+
+  /**
+   * Lazily iterates over the data in post-order (left, right, node)
+   * @throws Error if the tree is edited during iteration
+   */
+  postOrder(): IterableIterator<T> {
+    return this.traverse("postOrder");
+  }
+
+  /**
+   * Lazily iterates over the data level by level, left to right
+   * @throws Error if the tree is edited during iteration
+   */
+  levelOrder(): IterableIterator<T> {
+    return this.traverse("levelOrder");
+  }
+
+  /**
+   * Allows iteration over the tree using `for..of` syntax (in-order)
+   */
+  [Symbol.iterator](): Iterator<T> {
+    return this.inOrder();
+  }
+
+  /**
+   * Collects the data into an array
+   * @param order - Traversal order (defaults to in-order)
+   */
+  toArray(order: TraversalOrder = "inOrder"): T[] {
+    return [...this.traverse(order)];
+  }
+
+  /**
+   * Creates a tree of the same shape with every data mapped
+   * @param fn - Mapping function applied to each node data
+   * @returns A new, independent tree
+   * @example
+   * ```typescript
+   * const lengths = words.map((word) => word.length);
+   * ```
+   */
+  map<U>(fn: (data: T) => U): BinaryTree<U> {
+    const root = this.fold<Node<U> | null>(
+      (data, left, right) => new Node(fn(data), left, right),
+      null,
+    );
+    return BinaryTree.fromRoot(root, this._size);
+  }
+
+  /**
+   * Folds the tree bottom-up, following its shape
+   * Each node receives the results of its two subtrees
+   * @param fn - Combines a node data with the results of its subtrees
+   * @param empty - Result for an empty subtree
+   * @returns The result for the whole tree
+   * @example
+   * ```typescript
+   * const height = tree.fold((_, l, r) => 1 + Math.max(l, r), -1);
+   * ```
+   */
+  fold<R>(fn: (data: T, left: R, right: R) => R, empty: R): R {
+    return this.foldNodes(
+      (node, left, right) => fn(node.data, left, right),
+      empty,
+    );
+  }
+
+  /**
+   * Reduces the data to a single value, visiting nodes in a given order
+   * @param fn - Reducer receiving the accumulator and a node data
+   * @param initial - Initial accumulator
+   * @param order - Traversal order (defaults to in-order)
+   */
+  reduce<R>(
+    fn: (acc: R, data: T) => R,
+    initial: R,
+    order: TraversalOrder = "inOrder",
+  ): R {
+    let acc = initial;
+    for (const data of this.traverse(order)) {
+      acc = fn(acc, data);
+    }
+    return acc;
+  }
+
+  /**
+   * Checks whether at least one node data satisfies a predicate
+   * Stops at the first match
+   * @param predicate - The test to apply
+   */
+  some(predicate: (data: T) => boolean): boolean {
+    for (const node of this.walk("levelOrder")) {
+      if (predicate(node.data)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Checks whether every node data satisfies a predicate
+   * Stops at the first failure
+   * @param predicate - The test to apply
+   */
+  every(predicate: (data: T) => boolean): boolean {
+    for (const node of this.walk("levelOrder")) {
+      if (!predicate(node.data)) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Finds the first node data satisfying a predicate
+   * @param predicate - The test to apply
+   * @param order - Traversal order (defaults to in-order)
+   * @returns The matching data, or null if none matches
+   */
+  find(
+    predicate: (data: T) => boolean,
+    order: TraversalOrder = "inOrder",
+  ): T | null {
+    for (const node of this.walk(order)) {
+      if (predicate(node.data)) return node.data;
+    }
+    return null;
+  }
+
+  /**
+   * Mirrors the tree in place, swapping the children of every node
+   */
+  mirror(): void {
+    for (const node of this.walk("levelOrder")) {
+      const left = node.left;
+      node.left = node.right;
+      node.right = left;
+    }
+    this._modCount++;
+  }
+
+  /**
+   * Returns a mirrored copy of the tree, leaving this one untouched
+   * @returns A new, independent tree
+   */
+  toMirrored(): BinaryTree<T> {
+    const root = this.foldNodes<Node<T> | null>(
+      (node, left, right) => new Node(node.data, right, left),
+      null,
+    );
+    return BinaryTree.fromRoot(root, this._size);
+  }
+
+  /**
+   * Removes every subtree whose root data satisfies a predicate
+   * Nodes below a removed root are dropped without being tested
+   * @param predicate - Selects the subtrees to drop
+   * @returns The number of nodes removed
+   * @example
+   * ```typescript
+   * decisions.prune((node) => node.probability < 0.01);
+   * ```
+   */
+  prune(predicate: (data: T) => boolean): number {
+    if (!this.root) return 0;
+
+    if (predicate(this.root.data)) {
+      return this.swapSubtree([], null, 0, "prune").size;
+    }
+
+    let removed = 0;
+    const stack: Node<T>[] = [this.root];
+
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+
+      if (node.left && predicate(node.left.data)) {
+        removed += this.countNodes(node.left);
+        node.left = null;
+      }
+      if (node.right && predicate(node.right.data)) {
+        removed += this.countNodes(node.right);
+        node.right = null;
+      }
+
+      if (node.right) stack.push(node.right);
+      if (node.left) stack.push(node.left);
+    }
+
+    if (removed > 0) {
+      this._size -= removed;
+      this._modCount++;
+    }
+    return removed;
+  }
+
+  /**
+   * Copies the data into a LinkedList
+   * @param order - Traversal order (defaults to in-order)
+   * @returns A new LinkedList
+   */
+  flattenToList(order: TraversalOrder = "inOrder"): LinkedList<T> {
+    const list = new LinkedList<T>();
+    for (const node of this.walk(order)) {
+      list.append(node.data);
+    }
+    return list;
+  }
+
+  /**
+   * Returns a copy of the tree with the same shape
+   * If a mapper is provided, it is applied to each data.
+   * Otherwise, a shallow copy of the data is done.
+   * @param mapper - Optional mapping function for deep copying data
+   * @returns A new BinaryTree
+   */
+  clone(mapper?: (data: T) => T): BinaryTree<T> {
+    return this.map(mapper || ((data) => data));
+  }
+
+  /**
+   * Compares this tree with another, shape and data
+   * @param other - Another BinaryTree to compare against
+   * @param eq - Optional data equality (defaults to `===`)
+   * @returns `true` if both trees have the same shape and equal data
+   */
+  equals(
+    other: BinaryTree<T>,
+    eq: (a: T, b: T) => boolean = (a, b) => a === b,
+  ): boolean {
+    if (this._size !== other._size) return false;
+    return BinaryTree.nodesEqual(this.root, other.root, eq, false);
+  }
+
+  /**
+   * Checks whether the subtrees of every node differ in height by at most one
+   */
+  isBalanced(): boolean {
+    // Subtree heights, or -2 as soon as an unbalanced node is found
+    const height = this.foldNodes<number>((_, left, right) => {
+      if (left === -2 || right === -2 || Math.abs(left - right) > 1) {
+        return -2;
+      }
+      return 1 + Math.max(left, right);
+    }, -1);
+    return height !== -2;
+  }
+
+  /**
+   * Checks whether every level is full, except possibly the last one
+   * whose nodes are packed to the left
+   */
+  isComplete(): boolean {
+    const queue: (Node<T> | null)[] = [this.root];
+    let gapSeen = false;
+
+    for (let i = 0; i < queue.length; i++) {
+      const node = queue[i]!;
+      if (!node) {
+        gapSeen = true;
+      } else if (gapSeen) {
+        return false;
+      } else {
+        queue.push(node.left, node.right);
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Checks whether every node has either zero or two children
+   */
+  isFull(): boolean {
+    for (const node of this.walk("preOrder")) {
+      if (node.getChildCount() === 1) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Checks whether the tree is full with all its leaves on the same level
+   */
+  isPerfect(): boolean {
+    return this._size === 2 ** (this.height + 1) - 1;
+  }
+
+  /**
+   * Returns the number of edges on the longest path between two nodes
+   * @returns The diameter (0 for an empty or single-node tree)
+   */
+  diameter(): number {
+    let diameter = 0;
+
+    this.foldNodes<number>((_, left, right) => {
+      diameter = Math.max(diameter, left + right + 2);
+      return 1 + Math.max(left, right);
+    }, -1);
+
+    return diameter;
+  }
+
+  /**
+   * Returns the largest number of nodes found on a single level
+   * @returns The maximum level width (0 for an empty tree)
+   */
+  width(): number {
+    let width = 0;
+    let level: Node<T>[] = this.root ? [this.root] : [];
+
+    while (level.length > 0) {
+      width = Math.max(width, level.length);
+      const next: Node<T>[] = [];
+      for (const node of level) {
+        if (node.left) next.push(node.left);
+        if (node.right) next.push(node.right);
+      }
+      level = next;
+    }
+
+    return width;
+  }
+
+  /**
+   * Counts the nodes without children
+   */
+  leafCount(): number {
+    let count = 0;
+    for (const node of this.walk("preOrder")) {
+      if (node.isLeaf()) count++;
+    }
+    return count;
+  }
+
+  /**
+   * Checks whether the tree is its own mirror image, shape and data
+   * @param eq - Optional data equality (defaults to `===`)
+   */
+  isSymmetric(eq: (a: T, b: T) => boolean = (a, b) => a === b): boolean {
+    if (!this.root) return true;
+    return BinaryTree.nodesEqual(this.root.left, this.root.right, eq, true);
+  }
+
+  /**
+   * Checks whether this tree appears, shape and data, as a subtree of another
+   * The subtree must extend down to the leaves of the other tree
+   * @param other - The tree to search in
+   * @param eq - Optional data equality (defaults to `===`)
+   */
+  isSubtreeOf(
+    other: BinaryTree<T>,
+    eq: (a: T, b: T) => boolean = (a, b) => a === b,
+  ): boolean {
+    if (!this.root) return true;
+
+    for (const node of other.walk("preOrder")) {
+      if (BinaryTree.nodesEqual(this.root, node, eq, false)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Serializes the tree level by level, LeetCode style
+   * Missing children are written as null; trailing nulls are dropped
+   * @returns The level-order array
+   * @example
+   * ```typescript
+   * BinaryTree.fromLevelOrder([1, 2, 3, null, 4]).toLevelOrderArray();
+   * // [1, 2, 3, null, 4]
+   * ```
+   */
+  toLevelOrderArray(): (T | null)[] {
+    const result: (T | null)[] = [];
+    const queue: (Node<T> | null)[] = [this.root];
+
+    for (let i = 0; i < queue.length; i++) {
+      const node = queue[i]!;
+      result.push(node ? node.data : null);
+      if (node) queue.push(node.left, node.right);
+    }
+
+    while (result.length > 0 && result[result.length - 1] === null) {
+      result.pop();
+    }
+    return result;
+  }
+
+  /**
+   * Returns a JSON-serializable, shape-preserving representation of the tree
+   * Allows `JSON.stringify(tree)`; restore it with `BinaryTree.fromJSON`
+   *
+   * @returns Nested `{ value, left, right }` nodes, or null for an empty tree
+   * @throws Error if a node holds undefined data, which JSON cannot represent
+   */
+  toJSON(): SerializedNode<T> | null {
+    return nodesToJSON(
+      this.root,
+      BinaryTree.nodeAdapter<T>("BinaryTree.toJSON"),
+    );
+  }
+
+  /**
+   * Encodes the tree as a compact pre-order string with "#" for empty
+   * subtrees, each data being URI-encoded JSON
+   * @returns The serialized tree, restored with `BinaryTree.deserialize`
+   * @throws Error if a node holds undefined data, which JSON cannot represent
+   * @example
+   * ```typescript
+   * BinaryTree.fromLevelOrder([1, 2, 3]).serialize(); // "1,2,#,#,3,#,#"
+   * ```
+   */
+  serialize(): string {
+    return serializeNodes(
+      this.root,
+      BinaryTree.nodeAdapter<T>("BinaryTree.serialize"),
+    );
+  }
+
+  /**
+   * Draws the tree as an ASCII diagram
+   * @param options - Layout (sideways by default) and label formatting
+   * @returns The diagram, or an empty string for an empty tree
+   * @example
+   * ```typescript
+   * console.log(expression.toString({ layout: "topDown" }));
+   * //   _*
+   * //  /  \
+   * //  +  c
+   * ```
+   */
+  toString(options: AsciiOptions<T> = {}): string {
+    return renderAscii(this.root, BinaryTree.nodeAdapter<T>(), options);
+  }
+
+  /**
+   * Prints the ASCII diagram of the tree to the console
+   * @param options - Layout (sideways by default) and label formatting
+   */
+  print(options: AsciiOptions<T> = {}): void {
+    console.log(this.toString(options));
+  }
+
+  /**
+   * Renders the tree as a Graphviz DOT document
+   * @param options - Graph name, label formatting, and a position whose
+   * path from the root is highlighted when the node exists
+   * @returns The DOT source
+   */
+  toDot(options: DotOptions<T, Position> = {}): string {
+    const highlighted = new Set<Node<T>>();
+
+    if (options.highlight && this.findNode(options.highlight)) {
+      let current = this.root;
+      highlighted.add(current!);
+      for (const side of options.highlight) {
+        current = side === "left" ? current!.left : current!.right;
+        highlighted.add(current!);
+      }
+    }
+
+    return renderDot(
+      this.root,
+      BinaryTree.nodeAdapter<T>(),
+      options,
+      highlighted,
+    );
+  }
+
+  /**
+   * Rebuilds a tree from its pre-order and in-order traversals
+   * @param preOrder - The pre-order traversal
+   * @param inOrder - The in-order traversal
+   * @returns A new BinaryTree
+   * @throws Error if values repeat or the traversals do not match
+   * @example
+   * ```typescript
+   * BinaryTree.fromPreorderInorder([1, 2, 3], [2, 1, 3]); // 2 <- 1 -> 3
+   * ```
+   */
+  static fromPreorderInorder<T>(preOrder: T[], inOrder: T[]): BinaryTree<T> {
+    return BinaryTree.fromTraversals(
+      preOrder,
+      inOrder,
+      false,
+      "fromPreorderInorder",
+    );
+  }
+
+  /**
+   * Rebuilds a tree from its post-order and in-order traversals
+   * @param postOrder - The post-order traversal
+   * @param inOrder - The in-order traversal
+   * @returns A new BinaryTree
+   * @throws Error if values repeat or the traversals do not match
+   */
+  static fromPostorderInorder<T>(postOrder: T[], inOrder: T[]): BinaryTree<T> {
+    return BinaryTree.fromTraversals(
+      postOrder,
+      inOrder,
+      true,
+      "fromPostorderInorder",
+    );
+  }
+
+  /**
+   * Builds a tree from a level-order array, LeetCode style
+   * null marks a missing child, whose own children are not listed
+   * @param values - The level-order values
+   * @returns A new BinaryTree
+   * @throws {RangeError} If values are left over once every slot is filled
+   * @example
+   * ```typescript
+   * //     1
+   * //    / \
+   * //   2   3
+   * //    \
+   * //     4
+   * const tree = BinaryTree.fromLevelOrder([1, 2, 3, null, 4]);
+   * ```
+   */
+  static fromLevelOrder<T>(values: (T | null)[]): BinaryTree<T> {
+    if (values.length === 0 || values[0] == null) {
+      BinaryTree.checkLevelOrderRest(values, 1);
+      return new BinaryTree<T>();
+    }
+
+    const root = new Node<T>(values[0]);
+    const parents: Node<T>[] = [root];
+    let next = 1;
+
+    for (let i = 0; i < parents.length && next < values.length; i++) {
+      const parent = parents[i]!;
+
+      const left = values[next++];
+      if (left != null) {
+        parent.left = new Node<T>(left);
+        parents.push(parent.left);
+      }
+
+      if (next >= values.length) break;
+
+      const right = values[next++];
+      if (right != null) {
+        parent.right = new Node<T>(right);
+        parents.push(parent.right);
+      }
+    }
+
+    BinaryTree.checkLevelOrderRest(values, next);
+    return BinaryTree.fromRoot(root, parents.length);
+  }
+
+  /**
+   * Throws if a value remains past the last slot of a level-order array
+   * Trailing nulls are accepted
+   */
+  private static checkLevelOrderRest<T>(
+    values: (T | null)[],
+    next: number,
+  ): void {
+    for (let i = next; i < values.length; i++) {
+      if (values[i] != null) {
+        throw new RangeError(
+          `[BinaryTree.fromLevelOrder] Value at index ${i} has no parent slot.`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Compares two subtrees iteratively, shape and data
+   * When mirrored, the left side of a is matched with the right side of b
+   */
+  private static nodesEqual<T, U>(
+    a: Node<T> | null,
+    b: Node<U> | null,
+    eq: (a: T, b: U) => boolean,
+    mirrored: boolean,
+  ): boolean {
+    const stack: [Node<T> | null, Node<U> | null][] = [[a, b]];
+
+    while (stack.length > 0) {
+      const [x, y] = stack.pop()!;
+      if (!x || !y) {
+        if (x !== y) return false;
+        continue;
+      }
+
+      if (!eq(x.data, y.data)) return false;
+      stack.push(
+        [x.left, mirrored ? y.right : y.left],
+        [x.right, mirrored ? y.left : y.right],
+      );
+    }
+
+    return true;
+  }
+
+  /**
+   * Rebuilds a tree from the output of `toJSON`
+   * @param json - The nested representation (parsed JSON)
+   * @param reviver - Optional function restoring each data
+   * @returns A new BinaryTree with the same shape
+   * @throws Error if json does not describe a tree, or repeats a node value
+   * @example
+   * ```typescript
+   * const copy = BinaryTree.fromJSON(JSON.parse(JSON.stringify(tree)));
+   * ```
+   */
+  static fromJSON<T>(
+    json: SerializedNode<unknown> | null,
+    reviver: Reviver<T> = (value) => value as T,
+  ): BinaryTree<T> {
+    const method = "BinaryTree.fromJSON";
+    const { build, size } = BinaryTree.nodeBuilder<T>(method);
+    const root = nodesFromJSON(json, build, reviver, method);
+    return BinaryTree.fromRoot(root, size());
+  }
+
+  /**
+   * Rebuilds a tree from the output of `serialize`
+   * @param text - The compact pre-order form
+   * @param reviver - Optional function restoring each data
+   * @returns A new BinaryTree with the same shape
+   * @throws Error if text is not a serialized tree, or repeats a node value
+   */
+  static deserialize<T>(
+    text: string,
+    reviver: Reviver<T> = (value) => value as T,
+  ): BinaryTree<T> {
+    const method = "BinaryTree.deserialize";
+    const { build, size } = BinaryTree.nodeBuilder<T>(method);
+    const root = deserializeNodes(text, build, reviver, method);
+    return BinaryTree.fromRoot(root, size());
+  }
+
+  /**
+   * Node access for the serialization codecs
+   * When serializing for a method, undefined data is rejected since it
+   * cannot be encoded as JSON
+   */
+  private static nodeAdapter<T>(method?: string): NodeAdapter<Node<T>, T> {
+    return {
+      value: (node) => {
+        if (method && node.data === undefined) {
+          throw new Error(`[${method}] Cannot serialize undefined data.`);
+        }
+        return node.data;
+      },
+      count: () => 1,
+      left: (node) => node.left,
+      right: (node) => node.right,
+    };
+  }
+
+  /**
+   * Node factory for the serialization codecs, counting the created nodes
+   * Each node holds a single value, so multiplicities other than 1 are
+   * rejected
+   */
+  private static nodeBuilder<T>(method: string): {
+    build: NodeBuilder<Node<T>, T>;
+    size: () => number;
+  } {
+    let size = 0;
+    return {
+      build: (value, count, left, right) => {
+        if (count !== 1) {
+          throw new Error(
+            `[${method}] Binary tree nodes cannot repeat a value (count ${count}).`,
+          );
+        }
+        size++;
+        return new Node(value, left, right);
+      },
+      size: () => size,
+    };
+  }
+
+  /**
+   * Wraps a detached root node into a tree
+   */
+  private static fromRoot<T>(
+    root: Node<T> | null,
+    size: number,
+  ): BinaryTree<T> {
+    const tree = new BinaryTree<T>();
+    tree.root = root;
+    tree._size = size;
+    return tree;
+  }
+
+  /**
+   * Rebuilds a tree from an in-order traversal and a traversal listing
+   * each root before (pre-order) or after (post-order) its subtrees.
+   * Post-order is consumed backwards, building right subtrees first
+   */
+  private static fromTraversals<T>(
+    sequence: T[],
+    inOrder: T[],
+    rootLast: boolean,
+    method: string,
+  ): BinaryTree<T> {
+    if (sequence.length !== inOrder.length) {
+      throw new Error(
+        `[BinaryTree.${method}] Traversals must have the same length.`,
+      );
+    }
+
+    const inOrderIndex = new Map<T, number>();
+    inOrder.forEach((value, index) => {
+      if (inOrderIndex.has(value)) {
+        throw new Error(`[BinaryTree.${method}] Values must be unique.`);
+      }
+      inOrderIndex.set(value, index);
+    });
+
+    let next = rootLast ? sequence.length - 1 : 0;
+    let root: Node<T> | null = null;
+
+    // Pending inorder ranges, each to be attached on one side of its parent
+    const stack: {
+      lo: number;
+      hi: number;
+      parent: Node<T> | null;
+      side: Side;
+    }[] = [{ lo: 0, hi: inOrder.length - 1, parent: null, side: "left" }];
+
+    while (stack.length > 0) {
+      const { lo, hi, parent, side } = stack.pop()!;
+      if (lo > hi) continue;
+
+      const value = sequence[rootLast ? next-- : next++]!;
+      const index = inOrderIndex.get(value);
+      if (index === undefined || index < lo || index > hi) {
+        throw new Error(
+          `[BinaryTree.${method}] Traversals do not describe the same tree.`,
+        );
+      }
+
+      const node = new Node<T>(value);
+      if (!parent) {
+        root = node;
+      } else if (side === "left") {
+        parent.left = node;
+      } else {
+        parent.right = node;
+      }
+
+      // The subtree read next from the sequence is pushed last
+      const left = { lo, hi: index - 1, parent: node, side: "left" as const };
+      const right = { lo: index + 1, hi, parent: node, side: "right" as const };
+      stack.push(...(rootLast ? [left, right] : [right, left]));
+    }
+
+    return BinaryTree.fromRoot(root, inOrder.length);
+  }
+
+  /**
+   * Follows a position from the root
+   */
+  private findNode(position: Position): Node<T> | null {
+    let current = this.root;
+    for (const side of position) {
+      if (!current) return null;
+      current = side === "left" ? current.left : current.right;
+    }
+    return current;
+  }
+
+  /**
+   * Resolves a position into its parent node, side and node
+   * The parent must exist; the node must too when required is set
+   */
+  private locate(
+    position: Position,
+    method: string,
+    required: boolean,
+  ): { parent: Node<T> | null; side: Side | null; node: Node<T> | null } {
+    for (const side of position) {
+      if (side !== "left" && side !== "right") {
+        throw new Error(
+          `[BinaryTree.${method}] Invalid side "${side}" in position.`,
+        );
+      }
+    }
+
+    const parentPosition = position.slice(0, -1);
+    const parent = position.length > 0 ? this.findNode(parentPosition) : null;
+    const side = position.length > 0 ? position[position.length - 1]! : null;
+
+    if (position.length > 0 && !parent) {
+      throw new Error(
+        `[BinaryTree.${method}] No node at position [${parentPosition.join(", ")}].`,
+      );
+    }
+
+    const node = !parent
+      ? this.root
+      : side === "left"
+        ? parent.left
+        : parent.right;
+
+    if (required && !node) {
+      throw new Error(
+        `[BinaryTree.${method}] No node at position [${position.join(", ")}].`,
+      );
+    }
+
+    return { parent, side, node };
+  }
+
+  /**
+   * Attaches node under parent on side, or as the root when parent is null
+   */
+  private link(
+    parent: Node<T> | null,
+    side: Side | null,
+    node: Node<T> | null,
+  ): void {
+    if (!parent) {
+      this.root = node;
+    } else if (side === "left") {
+      parent.left = node;
+    } else {
+      parent.right = node;
+    }
+  }
+
+  /**
+   * Replaces the subtree at position and wraps the previous one in a tree
+   */
+  private swapSubtree(
+    position: Position,
+    replacement: Node<T> | null,
+    replacementSize: number,
+    method: string,
+  ): BinaryTree<T> {
+    const { parent, side, node } = this.locate(position, method, false);
+    const removedSize = this.countNodes(node);
+
+    this.link(parent, side, replacement);
+    this._size += replacementSize - removedSize;
+    this._modCount++;
+
+    return BinaryTree.fromRoot(node, removedSize);
+  }
+
+  /**
+   * Copies a subtree node by node
+   */
+  private copyNode(node: Node<T> | null): Node<T> | null {
+    return this.foldNodes<Node<T> | null>(
+      (original, left, right) => new Node(original.data, left, right),
+      null,
+      node,
+    );
+  }
+
+  /**
+   * Counts the nodes of a subtree
+   */
+  private countNodes(node: Node<T> | null): number {
+    return this.foldNodes<number>(
+      (_, left, right) => 1 + left + right,
+      0,
+      node,
+    );
+  }
+
+  /**
+   * Folds the nodes bottom-up, iteratively
+   * @param root - Subtree to fold (defaults to the whole tree)
+   */
+  private foldNodes<R>(
+    fn: (node: Node<T>, left: R, right: R) => R,
+    empty: R,
+    root: Node<T> | null = this.root,
+  ): R {
+    const results: R[] = [];
+    const stack: { node: Node<T> | null; expanded: boolean }[] = [
+      { node: root, expanded: false },
+    ];
+
+    // Iterative post-order: subtree results are stacked left then right
+    while (stack.length > 0) {
+      const frame = stack.pop()!;
+
+      if (!frame.node) {
+        results.push(empty);
+      } else if (!frame.expanded) {
+        frame.expanded = true;
+        stack.push(
+          frame,
+          { node: frame.node.right, expanded: false },
+          { node: frame.node.left, expanded: false },
+        );
+      } else {
+        const right = results.pop()!;
+        const left = results.pop()!;
+        results.push(fn(frame.node, left, right));
+      }
+    }
+
+    return results.pop()!;
+  }
+
+  /**
+   * Yields the data in the given order, failing fast on concurrent edits
+   */
+  private *traverse(order: TraversalOrder): IterableIterator<T> {
+    const expectedModCount = this._modCount;
+
+    for (const node of this.walk(order)) {
+      yield node.data;
+
+      if (this._modCount !== expectedModCount) {
+        throw new Error(
+          `[BinaryTree.${order}] Tree was mutated during iteration.`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Yields the nodes in the given order, iteratively
+   */
+  private *walk(order: TraversalOrder): IterableIterator<Node<T>> {
+    if (!this.root) return;
+
+    if (order === "levelOrder") {
+      const queue: Node<T>[] = [this.root];
+      for (let i = 0; i < queue.length; i++) {
+        const node = queue[i]!;
+        yield node;
+        if (node.left) queue.push(node.left);
+        if (node.right) queue.push(node.right);
+      }
+      return;
+    }
+
+    if (order === "preOrder") {
+      const stack: Node<T>[] = [this.root];
+      while (stack.length > 0) {
+        const node = stack.pop()!;
+        yield node;
+        if (node.right) stack.push(node.right);
+        if (node.left) stack.push(node.left);
+      }
+      return;
+    }
+
+    if (order === "inOrder") {
+      const stack: Node<T>[] = [];
+      let current: Node<T> | null = this.root;
+      while (current || stack.length > 0) {
+        while (current) {
+          stack.push(current);
+          current = current.left;
+        }
+        const node = stack.pop()!;
+        yield node;
+        current = node.right;
+      }
+      return;
+    }
+
+    // Post-order: a node is emitted once its right subtree is done
+    const stack: Node<T>[] = [];
+    let current: Node<T> | null = this.root;
+    let lastVisited: Node<T> | null = null;
+    while (current || stack.length > 0) {
+      while (current) {
+        stack.push(current);
+        current = current.left;
+      }
+      const node = stack[stack.length - 1]!;
+      if (node.right && node.right !== lastVisited) {
+        current = node.right;
+      } else {
+        stack.pop();
+        yield node;
+        lastVisited = node;
+      }
+    }
+  }
+
+  /**
+   * Calculate height iteratively
    */
   private getHeight(node: Node<T> | null): number {
-    if (!node) return -1;
-    return 1 + Math.max(this.getHeight(node.left), this.getHeight(node.right));
+    return this.foldNodes<number>(
+      (_, left, right) => 1 + Math.max(left, right),
+      -1,
+      node,
+    );
   }
 }
@@ -0,0 +1,77 @@
+/**
+ * Comparator function type for comparing two values
+ * @template T The type of values being compared
+ * @param a First value to compare
+ * @param b Second value to compare
+ * @returns Negative if a < b, positive if a > b, zero if equal
+ */
+export type Comparator<T> = (a: T, b: T) => number;
+
+/**
+ * Creates the default comparator used by the ordered collections
+ * Supports numbers, strings, booleans, Dates and objects exposing a
+ * `compare(other)` method. The type is detected on the first comparison
+ * and a fast path is cached for all subsequent calls.
+ *
+ * @template T The type of values being compared
+ * @returns A comparator for values of type T
+ * @throws Error on first use if no default ordering exists for the type
+ */
+export function createDefaultComparator<T>(): Comparator<T> {
+  let typeChecked = false;
+  let fastPath: ((a: T, b: T) => number) | null = null;
+
+  return (a: T, b: T): number => {
+    // Null checks first
+    if (a == null || b == null) {
+      return a == null && b == null ? 0 : a == null ? -1 : 1;
+    }
+
+    // Use cached fast path after first successful comparison
+    if (fastPath) {
+      return fastPath(a, b);
+    }
+
+    // Type determination (only happens once)
+    if (!typeChecked) {
+      typeChecked = true;
+      const typeA = typeof a;
+      const typeB = typeof b;
+
+      if (typeA === typeB) {
+        switch (typeA) {
+          case "number":
+            fastPath = (x, y) =>
+              (x as unknown as number) - (y as unknown as number);
+            return fastPath(a, b);
+          case "string":
+            fastPath = (x, y) =>
+              (x as unknown as string).localeCompare(y as unknown as string);
+            return fastPath(a, b);
+          case "boolean":
+            fastPath = (x, y) =>
+              Number(x as unknown as boolean) - Number(y as unknown as boolean);
+            return fastPath(a, b);
+        }
+
+        if (a instanceof Date && b instanceof Date) {
+          fastPath = (x, y) =>
+            (x as unknown as Date).getTime() - (y as unknown as Date).getTime();
+          return fastPath(a, b);
+        }
+
+        if (typeof (a as any).compare === "function") {
+          fastPath = (x, y) => (x as any).compare(y);
+          return fastPath(a, b);
+        }
+      }
+
+      throw new Error(
+        `No default comparator available for type ${typeA}. ` +
+          `Please provide a custom comparator function.`,
+      );
+    }
+
+    throw new Error("Comparator initialization failed");
+  };
+}
@@ -0,0 +1,592 @@
+import { BinaryTree } from "./BinaryTree";
+import { Stack } from "./Stack";
+import { SerializedNode } from "./TreeCodec";
+
+/**
+ * Operators taking two operands, from lowest to highest precedence:
+ * `||`, `&&`, `==` `!=`, `<` `<=` `>` `>=`, `+` `-`, `*` `/` `%`, `^`
+ */
+export type BinaryOperator =
+  | "||"
+  | "&&"
+  | "=="
+  | "!="
+  | "<"
+  | "<="
+  | ">"
+  | ">="
+  | "+"
+  | "-"
+  | "*"
+  | "/"
+  | "%"
+  | "^";
+
+/**
+ * Prefix operators: numeric negation and logical not
+ */
+export type UnaryOperator = "-" | "!";
+
+/**
+ * Result of an expression
+ */
+export type ExpressionValue = number | boolean;
+
+/**
+ * Values of the variables referenced by an expression
+ */
+export type ExpressionEnvironment = Record<string, ExpressionValue>;
+
+/**
+ * Data stored in each node of an expression tree
+ * Binary operators have two children; unary operators keep their operand
+ * as the right child so that in-order traversal reads like the source
+ */
+export type ExpressionToken =
+  | { type: "number"; value: number }
+  | { type: "boolean"; value: boolean }
+  | { type: "variable"; name: string }
+  | { type: "binary"; operator: BinaryOperator }
+  | { type: "unary"; operator: UnaryOperator };
+
+/** @internal Precedence and associativity of binary operators */
+const BINARY_OPERATORS: Record<
+  BinaryOperator,
+  { precedence: number; rightAssociative: boolean }
+> = {
+  "||": { precedence: 1, rightAssociative: false },
+  "&&": { precedence: 2, rightAssociative: false },
+  "==": { precedence: 3, rightAssociative: false },
+  "!=": { precedence: 3, rightAssociative: false },
+  "<": { precedence: 4, rightAssociative: false },
+  "<=": { precedence: 4, rightAssociative: false },
+  ">": { precedence: 4, rightAssociative: false },
+  ">=": { precedence: 4, rightAssociative: false },
+  "+": { precedence: 5, rightAssociative: false },
+  "-": { precedence: 5, rightAssociative: false },
+  "*": { precedence: 6, rightAssociative: false },
+  "/": { precedence: 6, rightAssociative: false },
+  "%": { precedence: 6, rightAssociative: false },
+  "^": { precedence: 8, rightAssociative: true },
+};
+
+/**
+ * @internal
+ * Prefix operators bind tighter than `*` but looser than `^`,
+ * so that `-2 ^ 2` is `-(2 ^ 2)`
+ */
+const UNARY_PRECEDENCE = 7;
+
+/** @internal Precedence of literals and variables */
+const ATOM_PRECEDENCE = Infinity;
+
+/** @internal Lexical tokens: numbers, names, operators and parentheses */
+const TOKEN_PATTERN =
+  /(?:(\d+\.?\d*(?:[eE][+-]?\d+)?|\.\d+(?:[eE][+-]?\d+)?)|([A-Za-z_$][\w$.]*)|(\|\||&&|==|!=|<=|>=|[<>+\-*/%^!()]))/y;
+
+/** @internal Operator waiting on the shunting-yard stack */
+type PendingOperator =
+  | { type: "binary"; operator: BinaryOperator }
+  | { type: "unary"; operator: UnaryOperator }
+  | { type: "paren"; position: number };
+
+/** @internal Expression node, as built by the parser */
+type ExpressionNode = SerializedNode<ExpressionToken>;
+
+/**
+ * Arithmetic and boolean expression stored as a BinaryTree
+ * Features:
+ * - Infix parsing with the shunting-yard algorithm
+ * - Evaluation against a variable environment, with short-circuit `&&`/`||`
+ * - Infix (minimal parentheses), prefix and postfix printing
+ * - Constant folding of variable-free subexpressions
+ *
+ * In prefix and postfix output, unary minus is written `neg` to keep
+ * the notation unambiguous.
+ *
+ * @example
+ * ```typescript
+ * const rule = ExpressionTree.parse("age >= 18 && country == 1");
+ * rule.evaluate({ age: 21, country: 1 }); // true
+ *
+ * ExpressionTree.parse("2 * (3 + x)").toPostfix(); // "2 3 x + *"
+ * ExpressionTree.parse("x * (2 + 3)").foldConstants().toInfix(); // "x * 5"
+ * ```
+ */
+export class ExpressionTree {
+  private tree: BinaryTree<ExpressionToken>;
+
+  /**
+   * Wraps a tree that is known to be well-formed
+   */
+  private constructor(tree: BinaryTree<ExpressionToken>) {
+    this.tree = tree;
+  }
+
+  /**
+   * Parses an infix expression
+   * @param expression - The source, e.g. `"(a + 1) * -b ^ 2 > 10 || !flag"`
+   * @returns A new ExpressionTree
+   * @throws Error on syntax errors, with the offending position
+   */
+  static parse(expression: string): ExpressionTree {
+    const operators = new Stack<PendingOperator>();
+    const operands = new Stack<ExpressionNode>();
+    let expectOperand = true;
+    let position = 0;
+
+    const fail = (message: string): never => {
+      throw new Error(`[ExpressionTree.parse] ${message}`);
+    };
+
+    const apply = (pending: PendingOperator): void => {
+      if (pending.type === "paren") {
+        fail(`Unmatched "(" at position ${pending.position}.`);
+      } else if (pending.type === "unary") {
+        const operand = operands.pop()!;
+        operands.push({ value: pending, left: null, right: operand });
+      } else {
+        const right = operands.pop()!;
+        const left = operands.pop()!;
+        operands.push({ value: pending, left, right });
+      }
+    };
+
+    while (position < expression.length) {
+      if (/\s/.test(expression[position]!)) {
+        position++;
+        continue;
+      }
+
+      TOKEN_PATTERN.lastIndex = position;
+      const match = TOKEN_PATTERN.exec(expression);
+      if (!match) {
+        fail(
+          `Unexpected character "${expression[position]}" at position ${position}.`,
+        );
+      }
+
+      const [text, number, name, symbol] = match!;
+      const start = position;
+      position += text.length;
+
+      if (number !== undefined || name !== undefined) {
+        if (!expectOperand) {
+          fail(`Unexpected token "${number ?? name}" at position ${start}.`);
+        }
+
+        const token: ExpressionToken =
+          number !== undefined
+            ? { type: "number", value: Number(number) }
+            : name === "true" || name === "false"
+              ? { type: "boolean", value: name === "true" }
+              : { type: "variable", name: name! };
+        operands.push({ value: token, left: null, right: null });
+        expectOperand = false;
+      } else if (symbol === "(") {
+        if (!expectOperand) fail(`Unexpected token "(" at position ${start}.`);
+        operators.push({ type: "paren", position: start });
+      } else if (symbol === ")") {
+        if (expectOperand) fail(`Unexpected token ")" at position ${start}.`);
+
+        while (!operators.isEmpty && operators.peek()!.type !== "paren") {
+          apply(operators.pop()!);
+        }
+        if (operators.isEmpty) fail(`Unmatched ")" at position ${start}.`);
+        operators.pop();
+      } else if (expectOperand) {
+        if (symbol !== "-" && symbol !== "!") {
+          fail(`Unexpected token "${symbol}" at position ${start}.`);
+        }
+        operators.push({ type: "unary", operator: symbol as UnaryOperator });
+      } else {
+        if (symbol === "!") fail(`Unexpected token "!" at position ${start}.`);
+
+        const operator = symbol as BinaryOperator;
+        const { precedence, rightAssociative } = BINARY_OPERATORS[operator];
+
+        // Pop operators binding tighter (or as tight, if left-associative)
+        while (!operators.isEmpty) {
+          const top = operators.peek()!;
+          if (top.type === "paren") break;
+
+          const topPrecedence =
+            top.type === "unary"
+              ? UNARY_PRECEDENCE
+              : BINARY_OPERATORS[top.operator].precedence;
+          if (
+            topPrecedence < precedence ||
+            (topPrecedence === precedence && rightAssociative)
+          ) {
+            break;
+          }
+          apply(operators.pop()!);
+        }
+
+        operators.push({ type: "binary", operator });
+        expectOperand = true;
+      }
+    }
+
+    if (expectOperand) fail("Unexpected end of expression.");
+
+    while (!operators.isEmpty) {
+      apply(operators.pop()!);
+    }
+
+    return new ExpressionTree(BinaryTree.fromJSON(operands.pop()!));
+  }
+
+  /**
+   * Wraps an existing tree, e.g. one restored with `BinaryTree.deserialize`
+   * @param tree - The tree to check and copy
+   * @returns A new ExpressionTree
+   * @throws Error if a node has the wrong number of children for its token
+   */
+  static fromBinaryTree(tree: BinaryTree<ExpressionToken>): ExpressionTree {
+    const valid = tree.fold<boolean | null>((token, left, right) => {
+      switch (token.type) {
+        case "binary":
+          return left === true && right === true;
+        case "unary":
+          return left === null && right === true;
+        default:
+          return left === null && right === null;
+      }
+    }, null);
+
+    if (valid !== true) {
+      throw new Error("[ExpressionTree.fromBinaryTree] Malformed expression.");
+    }
+    return new ExpressionTree(tree.clone());
+  }
+
+  /**
+   * Returns a copy of the underlying BinaryTree
+   */
+  toBinaryTree(): BinaryTree<ExpressionToken> {
+    return this.tree.clone();
+  }
+
+  /**
+   * Lists the variables referenced by the expression
+   * @returns The distinct variable names, in order of first appearance
+   */
+  variables(): string[] {
+    const names = new Set<string>();
+    for (const token of this.tree.inOrder()) {
+      if (token.type === "variable") names.add(token.name);
+    }
+    return [...names];
+  }
+
+  /**
+   * Evaluates the expression
+   * `&&` and `||` short-circuit, so their right operand may be left unevaluated
+   * @param env - Values of the variables
+   * @returns The resulting number or boolean
+   * @throws Error on unknown variables or operands of the wrong type
+   */
+  evaluate(env: ExpressionEnvironment = {}): ExpressionValue {
+    const values = new Stack<ExpressionValue>();
+    // Post-order walk; operands counts the operands already evaluated
+    const frames = new Stack<{ node: ExpressionNode; operands: number }>();
+    frames.push({ node: this.tree.toJSON()!, operands: 0 });
+
+    while (!frames.isEmpty) {
+      const frame = frames.peek()!;
+      const { value: token, left, right } = frame.node;
+
+      switch (token.type) {
+        case "number":
+        case "boolean":
+          values.push(token.value);
+          frames.pop();
+          break;
+        case "variable":
+          if (!Object.prototype.hasOwnProperty.call(env, token.name)) {
+            throw new Error(
+              `[ExpressionTree.evaluate] Unknown variable "${token.name}".`,
+            );
+          }
+          values.push(env[token.name]!);
+          frames.pop();
+          break;
+        case "unary":
+          if (frame.operands++ === 0) {
+            frames.push({ node: right!, operands: 0 });
+          } else {
+            values.push(applyUnary(token.operator, values.pop()!));
+            frames.pop();
+          }
+          break;
+        case "binary":
+          if (frame.operands === 0) {
+            frame.operands++;
+            frames.push({ node: left!, operands: 0 });
+          } else if (frame.operands === 1) {
+            frame.operands++;
+            // The left operand alone may decide `&&` and `||`
+            if (shortCircuits(token.operator, values.peek()!)) {
+              frames.pop();
+            } else {
+              frames.push({ node: right!, operands: 0 });
+            }
+          } else {
+            const b = values.pop()!;
+            const a = values.pop()!;
+            values.push(applyBinary(token.operator, a, b));
+            frames.pop();
+          }
+          break;
+      }
+    }
+
+    return values.pop()!;
+  }
+
+  /**
+   * Prints the expression in infix notation with minimal parentheses
+   * @returns The infix source, e.g. `"(a + b) * c"`
+   */
+  toInfix(): string {
+    const { text } = this.tree.fold<{ text: string; precedence: number }>(
+      (token, left, right) => {
+        if (token.type === "unary") {
+          const operand =
+            right.precedence < UNARY_PRECEDENCE
+              ? `(${right.text})`
+              : right.text;
+          return {
+            text: token.operator + operand,
+            precedence: UNARY_PRECEDENCE,
+          };
+        }
+
+        if (token.type === "binary") {
+          const { precedence, rightAssociative } =
+            BINARY_OPERATORS[token.operator];
+          const wrapLeft =
+            left.precedence < precedence ||
+            (left.precedence === precedence && rightAssociative);
+          const wrapRight =
+            right.precedence < precedence ||
+            (right.precedence === precedence && !rightAssociative);
+          return {
+            text: `${wrapLeft ? `(${left.text})` : left.text} ${token.operator} ${wrapRight ? `(${right.text})` : right.text}`,
+            precedence,
+          };
+        }
+
+        const text = formatAtom(token);
+        // A negative literal reads as a negation
+        return {
+          text,
+          precedence: text.startsWith("-") ? UNARY_PRECEDENCE : ATOM_PRECEDENCE,
+        };
+      },
+      { text: "", precedence: ATOM_PRECEDENCE },
+    );
+
+    return text;
+  }
+
+  /**
+   * Prints the expression in prefix (Polish) notation
+   * @returns Space-separated tokens, e.g. `"* + a b c"`
+   */
+  toPrefix(): string {
+    return this.tree
+      .toArray("preOrder")
+      .map((token) => formatToken(token))
+      .join(" ");
+  }
+
+  /**
+   * Prints the expression in postfix (reverse Polish) notation
+   * @returns Space-separated tokens, e.g. `"a b + c *"`
+   */
+  toPostfix(): string {
+    return this.tree
+      .toArray("postOrder")
+      .map((token) => formatToken(token))
+      .join(" ");
+  }
+
+  /**
+   * Replaces every variable-free subexpression with its value
+   * Subexpressions that would fail or produce a non-finite number are kept
+   * @returns A new, folded ExpressionTree
+   * @example
+   * ```typescript
+   * ExpressionTree.parse("x + 2 * 3").foldConstants().toInfix(); // "x + 6"
+   * ```
+   */
+  foldConstants(): ExpressionTree {
+    const root = this.tree.fold<ExpressionNode | null>((token, left, right) => {
+      const node: ExpressionNode = { value: token, left, right };
+      if (token.type !== "unary" && token.type !== "binary") return node;
+      if (left && !isConstant(left.value)) return node;
+      if (!isConstant(right!.value)) return node;
+
+      let value: ExpressionValue;
+      try {
+        value = new ExpressionTree(BinaryTree.fromJSON(node)).evaluate();
+      } catch {
+        return node;
+      }
+
+      if (typeof value === "number" && !Number.isFinite(value)) return node;
+      return {
+        value:
+          typeof value === "number"
+            ? { type: "number", value }
+            : { type: "boolean", value },
+        left: null,
+        right: null,
+      };
+    }, null);
+
+    return new ExpressionTree(BinaryTree.fromJSON(root));
+  }
+
+  /**
+   * Returns the infix form of the expression
+   */
+  toString(): string {
+    return this.toInfix();
+  }
+}
+
+/**
+ * @internal
+ * Checks whether a token is a literal
+ */
+function isConstant(token: ExpressionToken): boolean {
+  return token.type === "number" || token.type === "boolean";
+}
+
+/**
+ * @internal
+ * Formats a literal or a variable
+ */
+function formatAtom(token: ExpressionToken): string {
+  switch (token.type) {
+    case "number":
+    case "boolean":
+      return String(token.value);
+    case "variable":
+      return token.name;
+    default:
+      return token.operator;
+  }
+}
+
+/**
+ * @internal
+ * Formats a token for prefix and postfix output
+ */
+function formatToken(token: ExpressionToken): string {
+  if (token.type === "unary" && token.operator === "-") return "neg";
+  return formatAtom(token);
+}
+
+/**
+ * @internal
+ * Checks the type of an operand
+ */
+function expect<V extends ExpressionValue>(
+  operator: string,
+  value: ExpressionValue,
+  type: "number" | "boolean",
+): V {
+  if (typeof value !== type) {
+    throw new Error(
+      `[ExpressionTree.evaluate] Operator "${operator}" expects ${type} operands.`,
+    );
+  }
+  return value as V;
+}
+
+/**
+ * @internal
+ * Evaluates a prefix operator
+ */
+function applyUnary(
+  operator: UnaryOperator,
+  operand: ExpressionValue,
+): ExpressionValue {
+  return operator === "-"
+    ? -expect<number>(operator, operand, "number")
+    : !expect<boolean>(operator, operand, "boolean");
+}
+
+/**
+ * @internal
+ * Checks the left operand of a binary operator, before the right one is
+ * evaluated, and tells whether it decides the result on its own
+ */
+function shortCircuits(
+  operator: BinaryOperator,
+  left: ExpressionValue,
+): boolean {
+  switch (operator) {
+    case "&&":
+      return !expect<boolean>(operator, left, "boolean");
+    case "||":
+      return expect<boolean>(operator, left, "boolean");
+    case "==":
+    case "!=":
+      return false;
+  }
+
+  expect<number>(operator, left, "number");
+  return false;
+}
+
+/**
+ * @internal
+ * Evaluates a binary operator once both operands are known
+ * `&&` and `||` only get here when their left operand did not decide
+ */
+function applyBinary(
+  operator: BinaryOperator,
+  left: ExpressionValue,
+  right: ExpressionValue,
+): ExpressionValue {
+  switch (operator) {
+    case "&&":
+    case "||":
+      return expect<boolean>(operator, right, "boolean");
+    case "==":
+      return left === right;
+    case "!=":
+      return left !== right;
+  }
+
+  const a = expect<number>(operator, left, "number");
+  const b = expect<number>(operator, right, "number");
+
+  switch (operator) {
+    case "<":
+      return a < b;
+    case "<=":
+      return a <= b;
+    case ">":
+      return a > b;
+    case ">=":
+      return a >= b;
+    case "+":
+      return a + b;
+    case "-":
+      return a - b;
+    case "*":
+      return a * b;
+    case "/":
+      return a / b;
+    case "%":
+      return a % b;
+    case "^":
+      return a ** b;
+  }
+}
@@ -0,0 +1,297 @@
+import { BinarySearchTree } from "./BinarySearchTree";
+import { Comparator, createDefaultComparator } from "./Comparator";
+
+/**
+ * Closed interval [start, end]
+ * @template T The type of the endpoints
+ */
+export interface Interval<T> {
+  /** Lower endpoint (inclusive) */
+  start: T;
+
+  /** Upper endpoint (inclusive) */
+  end: T;
+}
+
+/**
+ * @internal
+ * Intervals sharing the same endpoints, stored as one tree value
+ * @template T The type of the endpoints
+ * @template I The type of the stored intervals
+ */
+interface Bucket<T, I extends Interval<T>> {
+  /** Lower endpoint shared by the intervals */
+  start: T;
+
+  /** Upper endpoint shared by the intervals */
+  end: T;
+
+  /** Intervals with these exact endpoints, in insertion order */
+  intervals: I[];
+}
+
+/**
+ * @internal
+ * Subtree aggregate: the smallest start and the largest end, or null for
+ * an empty subtree
+ */
+type Span<T> = Interval<T> | null;
+
+/**
+ * Interval tree answering overlap and stabbing queries
+ * Features:
+ * - AVL-balanced BinarySearchTree keyed by (start, end) for O(log n) updates
+ * - Nodes augmented through the BinarySearchTree aggregate with the
+ *   smallest start and largest end of their subtree, to prune whole
+ *   subtrees during queries
+ * - O(log n + k) overlap and stabbing queries reporting k intervals
+ * - Endpoints ordered by a comparator, so numbers, strings and Dates all work
+ *
+ * Intervals are closed: [1, 3] and [3, 5] overlap.
+ *
+ * @template T The type of the endpoints
+ * @template I The type of the stored intervals, which may carry extra data
+ * @example
+ * ```typescript
+ * const bookings = new IntervalTree<number>();
+ * bookings.insert({ start: 9, end: 11 });
+ * bookings.insert({ start: 10, end: 12 });
+ * bookings.stabbing(11.5); // [{ start: 10, end: 12 }]
+ * ```
+ */
+export class IntervalTree<T, I extends Interval<T> = Interval<T>> {
+  /** Buckets ordered by (start, end), aggregating their span */
+  private readonly _tree: BinarySearchTree<Bucket<T, I>, Span<T>>;
+
+  /** Number of intervals in the tree */
+  private _size: number = 0;
+
+  /** Comparator function for ordering endpoints */
+  private readonly _compareFn: Comparator<T>;
+
+  /**
+   * Creates a new Interval Tree
+   * @param compareFn Optional custom endpoint comparator function
+   */
+  constructor(compareFn?: Comparator<T>) {
+    const compare = compareFn || createDefaultComparator<T>();
+    this._compareFn = compare;
+
+    this._tree = new BinarySearchTree<Bucket<T, I>, Span<T>>({
+      compareFn: (a, b) => compare(a.start, b.start) || compare(a.end, b.end),
+      balance: "avl",
+      aggregate: {
+        identity: null,
+        lift: (bucket) => ({ start: bucket.start, end: bucket.end }),
+        // Subtrees are combined in key order, so the left one starts first
+        combine: (left, right) => {
+          if (!left) return right;
+          if (!right) return left;
+          return {
+            start: left.start,
+            end: compare(left.end, right.end) >= 0 ? left.end : right.end,
+          };
+        },
+      },
+    });
+  }
+
+  /**
+   * Gets the number of intervals in the tree
+   * @returns The size of the tree
+   */
+  get size(): number {
+    return this._size;
+  }
+
+  /**
+   * Checks if the tree is empty
+   * @returns True if the tree has no intervals
+   */
+  get isEmpty(): boolean {
+    return this._tree.isEmpty;
+  }
+
+  /**
+   * Gets the height of the tree
+   * @returns The height of the tree (-1 for empty tree)
+   */
+  get height(): number {
+    return this._tree.height;
+  }
+
+  /**
+   * Inserts an interval into the tree
+   * The same interval may be inserted several times
+   * @param interval The interval to insert
+   * @throws Error if an endpoint is null or start is greater than end
+   */
+  insert(interval: I): void {
+    this._validate(interval, "insert");
+
+    const bucket = this._tree.search(this._probe(interval));
+    if (bucket) {
+      bucket.intervals.push(interval);
+    } else {
+      this._tree.insert({
+        start: interval.start,
+        end: interval.end,
+        intervals: [interval],
+      });
+    }
+    this._size++;
+  }
+
+  /**
+   * Removes an interval from the tree
+   * The exact same object is removed if present, otherwise the first
+   * interval inserted with the same endpoints
+   * @param interval The interval to remove
+   * @returns True if an interval was removed
+   */
+  remove(interval: I): boolean {
+    if (!interval || interval.start == null || interval.end == null) {
+      return false;
+    }
+
+    const bucket = this._tree.search(this._probe(interval));
+    if (!bucket) return false;
+
+    const index = bucket.intervals.indexOf(interval);
+    bucket.intervals.splice(index === -1 ? 0 : index, 1);
+    if (bucket.intervals.length === 0) {
+      this._tree.remove(bucket);
+    }
+    this._size--;
+    return true;
+  }
+
+  /**
+   * Finds every interval overlapping a range
+   * @param range The closed range to test against
+   * @returns The overlapping intervals, ordered by (start, end)
+   * @example
+   * ```typescript
+   * tree.overlapping({ start: 10, end: 20 });
+   * ```
+   */
+  overlapping(range: Interval<T>): I[] {
+    this._validate(range, "overlapping");
+    const result: I[] = [];
+
+    for (const bucket of this._search(range)) {
+      result.push(...bucket.intervals);
+    }
+
+    return result;
+  }
+
+  /**
+   * Finds every interval containing a point
+   * @param point The point to test
+   * @returns The intervals containing point, ordered by (start, end)
+   */
+  stabbing(point: T): I[] {
+    return this.overlapping({ start: point, end: point });
+  }
+
+  /**
+   * Finds one interval overlapping a range in O(log n)
+   * @param range The closed range to test against
+   * @returns An overlapping interval, or null if there is none
+   */
+  anyOverlap(range: Interval<T>): I | null {
+    this._validate(range, "anyOverlap");
+
+    // The walk only enters a subtree without overlap when everything
+    // after it starts past the range, so it follows a single path
+    const first = this._search(range).next();
+    return first.done ? null : first.value.intervals[0]!;
+  }
+
+  /**
+   * Returns every interval ordered by (start, end)
+   * @returns An array of the stored intervals
+   */
+  toArray(): I[] {
+    return [...this];
+  }
+
+  /**
+   * Removes all intervals from the tree
+   */
+  clear(): void {
+    this._tree.clear();
+    this._size = 0;
+  }
+
+  /**
+   * Validates ordering, AVL balance and the interval count
+   * @returns True if every invariant holds
+   */
+  isValidIntervalTree(): boolean {
+    if (!this._tree.isValidBST()) return false;
+
+    let size = 0;
+    for (const bucket of this._tree.inOrder()) {
+      if (bucket.intervals.length === 0) return false;
+      size += bucket.intervals.length;
+    }
+
+    return size === this._size;
+  }
+
+  /**
+   * Allows iteration over the intervals ordered by (start, end)
+   * @returns An iterator over the stored intervals
+   */
+  *[Symbol.iterator](): Iterator<I> {
+    for (const bucket of this._tree.inOrder()) {
+      yield* bucket.intervals;
+    }
+  }
+
+  // ================================
+  // PRIVATE HELPER METHODS
+  // ================================
+
+  /**
+   * @internal
+   * Rejects null endpoints and reversed intervals
+   */
+  private _validate(interval: Interval<T>, method: string): void {
+    if (!interval || interval.start == null || interval.end == null) {
+      throw new Error(
+        `[IntervalTree.${method}] Interval endpoints cannot be null or undefined.`,
+      );
+    }
+
+    if (this._compareFn(interval.start, interval.end) > 0) {
+      throw new Error(
+        `[IntervalTree.${method}] Interval start must not be greater than its end.`,
+      );
+    }
+  }
+
+  /**
+   * @internal
+   * Bucket key used to look up the intervals with given endpoints
+   */
+  private _probe(interval: Interval<T>): Bucket<T, I> {
+    return { start: interval.start, end: interval.end, intervals: [] };
+  }
+
+  /**
+   * @internal
+   * Walks the buckets overlapping a range in (start, end) order, skipping
+   * subtrees that end before the range starts or start after it ends
+   */
+  private _search(range: Interval<T>): IterableIterator<Bucket<T, I>> {
+    return this._tree.filterByAggregate(
+      (span) =>
+        span !== null &&
+        this._compareFn(span.start, range.end) <= 0 &&
+        this._compareFn(range.start, span.end) <= 0,
+    );
+  }
+}
@@ -0,0 +1,852 @@
+import { RangeOptions } from "./BinarySearchTree";
+import { Comparator, createDefaultComparator } from "./Comparator";
+import { RangeError } from "./Errors";
+
+/**
+ * @internal
+ * Immutable AVL node, shared between tree versions
+ * @template T The type of data stored in the node
+ */
+class PersistentNode<T> {
+  /** @internal The data stored in this node */
+  public readonly value: T;
+
+  /** @internal Reference to the left child node */
+  public readonly left: PersistentNode<T> | null;
+
+  /** @internal Reference to the right child node */
+  public readonly right: PersistentNode<T> | null;
+
+  /** @internal Height of the subtree rooted at this node */
+  public readonly height: number;
+
+  /** @internal Number of nodes in the subtree rooted at this node */
+  public readonly size: number;
+
+  /**
+   * @internal
+   * Creates a new node, computing its metadata once
+   * @param value The data to store in the node
+   * @param left Left child node
+   * @param right Right child node
+   */
+  constructor(
+    value: T,
+    left: PersistentNode<T> | null,
+    right: PersistentNode<T> | null,
+  ) {
+    this.value = value;
+    this.left = left;
+    this.right = right;
+    this.height = 1 + Math.max(heightOf(left), heightOf(right));
+    this.size = 1 + sizeOf(left) + sizeOf(right);
+  }
+}
+
+/**
+ * @internal
+ * Height of a possibly empty subtree
+ */
+function heightOf<T>(node: PersistentNode<T> | null): number {
+  return node ? node.height : -1;
+}
+
+/**
+ * @internal
+ * Size of a possibly empty subtree
+ */
+function sizeOf<T>(node: PersistentNode<T> | null): number {
+  return node ? node.size : 0;
+}
+
+/**
+ * Persistent (immutable) Binary Search Tree using path copying
+ * Features:
+ * - `insert` and `remove` return a new tree and never modify the receiver
+ * - Unchanged subtrees are shared between versions, O(log n) new nodes per update
+ * - AVL balancing for guaranteed O(log n) operations
+ * - Same query API as BinarySearchTree
+ *
+ * Nodes are never recycled, so older versions stay valid indefinitely.
+ *
+ * @template T The type of data stored in the tree
+ * @example
+ * ```typescript
+ * const v1 = new PersistentBST<number>().insert(2).insert(1);
+ * const v2 = v1.insert(3);
+ * v1.toArray(); // [1, 2]
+ * v2.toArray(); // [1, 2, 3]
+ * ```
+ */
+export class PersistentBST<T> {
+  /** Root node of this version */
+  private _root: PersistentNode<T> | null = null;
+
+  /** Comparator function for ordering elements */
+  private readonly _compareFn: Comparator<T>;
+
+  /**
+   * Creates a new empty Persistent Binary Search Tree
+   * @param compareFn Optional custom comparator function
+   */
+  constructor(compareFn?: Comparator<T>) {
+    this._compareFn = compareFn || createDefaultComparator<T>();
+  }
+
+  /**
+   * Gets the number of nodes in the tree
+   * @returns The size of the tree
+   */
+  get size(): number {
+    return sizeOf(this._root);
+  }
+
+  /**
+   * Checks if the tree is empty
+   * @returns True if the tree has no nodes
+   */
+  get isEmpty(): boolean {
+    return this._root === null;
+  }
+
+  /**
+   * Gets the height of the tree
+   * @returns The height of the tree (-1 for empty tree)
+   */
+  get height(): number {
+    return heightOf(this._root);
+  }
+
+  /**
+   * Gets the root value of the tree
+   * @returns The root value or null if empty
+   */
+  getRootValue(): T | null {
+    return this._root ? this._root.value : null;
+  }
+
+  /**
+   * Returns a new tree containing a value
+   * Duplicates are ignored and the same tree is returned
+   * @param value The value to insert
+   * @returns The new version of the tree
+   * @throws Error if value is null or undefined
+   */
+  insert(value: T): PersistentBST<T> {
+    if (value == null) {
+      throw new Error("Cannot insert null or undefined value");
+    }
+
+    const root = this._insertNode(this._root, value);
+    return root === this._root ? this : this._derive(root);
+  }
+
+  /**
+   * Returns a new tree containing multiple additional values
+   * @param values Array of values to insert
+   * @returns The new version of the tree
+   */
+  insertBatch(values: T[]): PersistentBST<T> {
+    let tree: PersistentBST<T> = this;
+    for (const value of values) {
+      tree = tree.insert(value);
+    }
+    return tree;
+  }
+
+  /**
+   * Returns a new tree without a value
+   * If the value is absent, the same tree is returned
+   * @param value The value to remove
+   * @returns The new version of the tree
+   */
+  remove(value: T): PersistentBST<T> {
+    if (this.isEmpty || value == null) {
+      return this;
+    }
+
+    const root = this._removeNode(this._root, value);
+    return root === this._root ? this : this._derive(root);
+  }
+
+  /**
+   * Searches for a value in the tree
+   * @param value The value to search for
+   * @returns The found value or null if not found
+   */
+  search(value: T): T | null {
+    if (value == null) return null;
+
+    let current = this._root;
+
+    while (current) {
+      const comparison = this._compareFn(value, current.value);
+
+      if (comparison === 0) {
+        return current.value;
+      }
+
+      current = comparison < 0 ? current.left : current.right;
+    }
+
+    return null;
+  }
+
+  /**
+   * Checks if the tree contains a specific value
+   * @param value The value to check for
+   * @returns True if the value exists in the tree
+   */
+  contains(value: T): boolean {
+    return this.search(value) !== null;
+  }
+
+  /**
+   * Finds the minimum value in the tree
+   * @returns The minimum value or null if tree is empty
+   */
+  findMin(): T | null {
+    let current = this._root;
+    while (current && current.left) {
+      current = current.left;
+    }
+    return current ? current.value : null;
+  }
+
+  /**
+   * Finds the maximum value in the tree
+   * @returns The maximum value or null if tree is empty
+   */
+  findMax(): T | null {
+    let current = this._root;
+    while (current && current.right) {
+      current = current.right;
+    }
+    return current ? current.value : null;
+  }
+
+  /**
+   * Finds the greatest value less than or equal to a given value
+   * @param value The value to compare against
+   * @returns The floor value or null if none exists
+   */
+  floor(value: T): T | null {
+    return this._bound(value, true, true);
+  }
+
+  /**
+   * Finds the smallest value greater than or equal to a given value
+   * @param value The value to compare against
+   * @returns The ceiling value or null if none exists
+   */
+  ceiling(value: T): T | null {
+    return this._bound(value, false, true);
+  }
+
+  /**
+   * Finds the greatest value strictly less than a given value
+   * @param value The value to compare against
+   * @returns The lower value or null if none exists
+   */
+  lower(value: T): T | null {
+    return this._bound(value, true, false);
+  }
+
+  /**
+   * Finds the smallest value strictly greater than a given value
+   * @param value The value to compare against
+   * @returns The higher value or null if none exists
+   */
+  higher(value: T): T | null {
+    return this._bound(value, false, false);
+  }
+
+  /**
+   * Finds the in-order successor of a value stored in the tree
+   * Unlike `higher`, the value itself must be present
+   * @param value A value contained in the tree
+   * @returns The next value in order, or null if value is absent or the maximum
+   */
+  successor(value: T): T | null {
+    return this.contains(value) ? this.higher(value) : null;
+  }
+
+  /**
+   * Finds the in-order predecessor of a value stored in the tree
+   * Unlike `lower`, the value itself must be present
+   * @param value A value contained in the tree
+   * @returns The previous value in order, or null if value is absent or the minimum
+   */
+  predecessor(value: T): T | null {
+    return this.contains(value) ? this.lower(value) : null;
+  }
+
+  /**
+   * Returns the value at a given sorted position
+   * @param index Zero-based position in ascending order
+   * @returns The value at that position
+   * @throws {RangeError} If the index is out of bounds
+   */
+  select(index: number): T {
+    if (!Number.isInteger(index) || index < 0 || index >= this.size) {
+      throw new RangeError(
+        `[PersistentBST.select] Index ${index} is out of bounds. Size: ${this.size}.`,
+      );
+    }
+
+    return this._selectNode(index).value;
+  }
+
+  /**
+   * Counts the values strictly smaller than a given value
+   * @param value The value to rank
+   * @returns The number of values less than value
+   */
+  rank(value: T): number {
+    return this._countBelow(value, false);
+  }
+
+  /**
+   * Returns the k-th smallest value
+   * @param k One-based position in ascending order
+   * @returns The k-th smallest value
+   * @throws {RangeError} If k is not in [1, size]
+   */
+  kthSmallest(k: number): T {
+    if (!Number.isInteger(k) || k < 1 || k > this.size) {
+      throw new RangeError(
+        `[PersistentBST.kthSmallest] k ${k} is out of bounds. Size: ${this.size}.`,
+      );
+    }
+
+    return this._selectNode(k - 1).value;
+  }
+
+  /**
+   * Returns the k-th largest value
+   * @param k One-based position in descending order
+   * @returns The k-th largest value
+   * @throws {RangeError} If k is not in [1, size]
+   */
+  kthLargest(k: number): T {
+    if (!Number.isInteger(k) || k < 1 || k > this.size) {
+      throw new RangeError(
+        `[PersistentBST.kthLargest] k ${k} is out of bounds. Size: ${this.size}.`,
+      );
+    }
+
+    return this._selectNode(this.size - k).value;
+  }
+
+  /**
+   * Returns the median value
+   * For an even number of values, the lower median is returned
+   * @returns The median value or null if tree is empty
+   */
+  median(): T | null {
+    if (this.isEmpty) {
+      return null;
+    }
+
+    return this._selectNode((this.size - 1) >> 1).value;
+  }
+
+  /**
+   * Lazily iterates over the values within [lo, hi] in ascending order
+   * Only the visited part of the tree is walked, so early exit is cheap
+   * @param lo Lower bound of the range
+   * @param hi Upper bound of the range
+   * @param options Bound inclusiveness (both inclusive by default)
+   * @returns An iterator over the values in range
+   */
+  range(lo: T, hi: T, options: RangeOptions = {}): IterableIterator<T> {
+    return this._rangeIterator(
+      lo,
+      hi,
+      options.loInclusive ?? true,
+      options.hiInclusive ?? true,
+    );
+  }
+
+  /**
+   * Counts the values within [lo, hi] in O(log n)
+   * @param lo Lower bound of the range
+   * @param hi Upper bound of the range
+   * @param options Bound inclusiveness (both inclusive by default)
+   * @returns The number of values in range
+   */
+  countRange(lo: T, hi: T, options: RangeOptions = {}): number {
+    if (lo == null || hi == null || this._compareFn(lo, hi) > 0) {
+      return 0;
+    }
+
+    const below = this._countBelow(hi, options.hiInclusive ?? true);
+    const excluded = this._countBelow(lo, !(options.loInclusive ?? true));
+    return Math.max(0, below - excluded);
+  }
+
+  /**
+   * Performs in-order traversal of the tree
+   * @returns Array of values in sorted order
+   */
+  inOrderTraversal(): T[] {
+    return [...this];
+  }
+
+  /**
+   * Lazily iterates over the values in ascending order
+   * @returns An iterator over the tree values
+   */
+  inOrder(): IterableIterator<T> {
+    return this._inOrderGenerator(false);
+  }
+
+  /**
+   * Lazily iterates over the values in descending order
+   * @returns An iterator over the tree values
+   */
+  reverseInOrder(): IterableIterator<T> {
+    return this._inOrderGenerator(true);
+  }
+
+  /**
+   * Lazily iterates over the values in pre-order (node, left, right)
+   * @returns An iterator over the tree values
+   */
+  preOrder(): IterableIterator<T> {
+    return this._preOrderGenerator();
+  }
+
+  /**
+   * Lazily iterates over the values in post-order (left, right, node)
+   * @returns An iterator over the tree values
+   */
+  postOrder(): IterableIterator<T> {
+    return this._postOrderGenerator();
+  }
+
+  /**
+   * Lazily iterates over the values level by level (breadth-first)
+   * @returns An iterator over the tree values
+   */
+  levelOrder(): IterableIterator<T> {
+    return this._levelOrderGenerator();
+  }
+
+  /**
+   * Converts the tree to a sorted array
+   * @returns Array of all values in ascending order
+   */
+  toArray(): T[] {
+    return this.inOrderTraversal();
+  }
+
+  /**
+   * Returns an empty tree with the same comparator
+   * @returns An empty version of the tree
+   */
+  clear(): PersistentBST<T> {
+    return this._derive(null);
+  }
+
+  /**
+   * Validates BST ordering and AVL balance
+   * @returns True if the tree is a valid balanced BST
+   */
+  isValidBST(): boolean {
+    const values = this.toArray();
+    for (let i = 1; i < values.length; i++) {
+      if (this._compareFn(values[i - 1]!, values[i]!) >= 0) return false;
+    }
+    return this._validateBalance(this._root);
+  }
+
+  /**
+   * Allows iteration over the tree in ascending order using `for..of` syntax.
+   * A version never changes, so iteration is always safe.
+   * @returns An iterator over the tree values
+   */
+  [Symbol.iterator](): Iterator<T> {
+    return this._inOrderGenerator(false);
+  }
+
+  /**
+   * Creates a persistent tree from an array of values
+   * @param values Values to insert, in any order
+   * @param compareFn Optional custom comparator function
+   * @returns A new tree containing the values
+   */
+  static fromArray<T>(
+    values: T[],
+    compareFn?: Comparator<T>,
+  ): PersistentBST<T> {
+    return new PersistentBST<T>(compareFn).insertBatch(values);
+  }
+
+  // ================================
+  // PRIVATE HELPER METHODS
+  // ================================
+
+  /**
+   * @internal
+   * Wraps a root node in a new version sharing the comparator
+   */
+  private _derive(root: PersistentNode<T> | null): PersistentBST<T> {
+    const tree = new PersistentBST<T>(this._compareFn);
+    tree._root = root;
+    return tree;
+  }
+
+  /**
+   * @internal
+   * Copies the search path to insert value
+   * @returns The new subtree root, or node itself if value was present
+   */
+  private _insertNode(
+    node: PersistentNode<T> | null,
+    value: T,
+  ): PersistentNode<T> {
+    if (!node) return new PersistentNode(value, null, null);
+
+    const comparison = this._compareFn(value, node.value);
+    if (comparison === 0) return node;
+
+    if (comparison < 0) {
+      const left = this._insertNode(node.left, value);
+      return left === node.left
+        ? node
+        : this._balanced(node.value, left, node.right);
+    }
+
+    const right = this._insertNode(node.right, value);
+    return right === node.right
+      ? node
+      : this._balanced(node.value, node.left, right);
+  }
+
+  /**
+   * @internal
+   * Copies the search path to remove value
+   * @returns The new subtree root, or node itself if value was absent
+   */
+  private _removeNode(
+    node: PersistentNode<T> | null,
+    value: T,
+  ): PersistentNode<T> | null {
+    if (!node) return null;
+
+    const comparison = this._compareFn(value, node.value);
+
+    if (comparison < 0) {
+      const left = this._removeNode(node.left, value);
+      return left === node.left
+        ? node
+        : this._balanced(node.value, left, node.right);
+    }
+
+    if (comparison > 0) {
+      const right = this._removeNode(node.right, value);
+      return right === node.right
+        ? node
+        : this._balanced(node.value, node.left, right);
+    }
+
+    if (!node.left) return node.right;
+    if (!node.right) return node.left;
+
+    // Two children: the in-order successor takes the node's place
+    let successor = node.right;
+    while (successor.left) {
+      successor = successor.left;
+    }
+
+    return this._balanced(
+      successor.value,
+      node.left,
+      this._removeMin(node.right),
+    );
+  }
+
+  /**
+   * @internal
+   * Copies the left spine to drop the minimum node
+   */
+  private _removeMin(node: PersistentNode<T>): PersistentNode<T> | null {
+    if (!node.left) return node.right;
+    return this._balanced(node.value, this._removeMin(node.left), node.right);
+  }
+
+  /**
+   * @internal
+   * Creates a node from two AVL subtrees whose heights differ by at most 2,
+   * building rotated copies instead of mutating when it is unbalanced
+   */
+  private _balanced(
+    value: T,
+    left: PersistentNode<T> | null,
+    right: PersistentNode<T> | null,
+  ): PersistentNode<T> {
+    const leftHeight = heightOf(left);
+    const rightHeight = heightOf(right);
+
+    if (leftHeight > rightHeight + 1) {
+      const { left: outer, right: inner } = left!;
+
+      if (heightOf(outer) >= heightOf(inner)) {
+        // Left-Left case: single right rotation
+        return new PersistentNode(
+          left!.value,
+          outer,
+          new PersistentNode(value, inner, right),
+        );
+      }
+
+      // Left-Right case: double rotation
+      return new PersistentNode(
+        inner!.value,
+        new PersistentNode(left!.value, outer, inner!.left),
+        new PersistentNode(value, inner!.right, right),
+      );
+    }
+
+    if (rightHeight > leftHeight + 1) {
+      const { right: outer, left: inner } = right!;
+
+      if (heightOf(outer) >= heightOf(inner)) {
+        // Right-Right case: single left rotation
+        return new PersistentNode(
+          right!.value,
+          new PersistentNode(value, left, inner),
+          outer,
+        );
+      }
+
+      // Right-Left case: double rotation
+      return new PersistentNode(
+        inner!.value,
+        new PersistentNode(value, left, inner!.left),
+        new PersistentNode(right!.value, inner!.right, outer),
+      );
+    }
+
+    return new PersistentNode(value, left, right);
+  }
+
+  /**
+   * @internal
+   * Finds the nearest value below (floor/lower) or above (ceiling/higher)
+   */
+  private _bound(value: T, below: boolean, inclusive: boolean): T | null {
+    if (value == null) return null;
+
+    let current = this._root;
+    let result: T | null = null;
+
+    while (current) {
+      const comparison = this._compareFn(value, current.value);
+
+      if (comparison === 0 && inclusive) {
+        return current.value;
+      }
+
+      if (below ? comparison > 0 : comparison < 0) {
+        result = current.value;
+        current = below ? current.right : current.left;
+      } else {
+        current = below ? current.left : current.right;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * @internal
+   * Counts the values below value (or equal to it when inclusive)
+   */
+  private _countBelow(value: T, inclusive: boolean): number {
+    if (value == null) return 0;
+
+    let current = this._root;
+    let count = 0;
+
+    while (current) {
+      const comparison = this._compareFn(value, current.value);
+
+      if (comparison === 0) {
+        return count + sizeOf(current.left) + (inclusive ? 1 : 0);
+      }
+
+      if (comparison < 0) {
+        current = current.left;
+      } else {
+        count += sizeOf(current.left) + 1;
+        current = current.right;
+      }
+    }
+
+    return count;
+  }
+
+  /**
+   * @internal
+   * Descends using subtree sizes to the node at a sorted position
+   * The index must already be bounds-checked
+   */
+  private _selectNode(index: number): PersistentNode<T> {
+    let current = this._root!;
+
+    while (true) {
+      const leftSize = sizeOf(current.left);
+
+      if (index < leftSize) {
+        current = current.left!;
+      } else if (index > leftSize) {
+        index -= leftSize + 1;
+        current = current.right!;
+      } else {
+        return current;
+      }
+    }
+  }
+
+  /**
+   * @internal
+   * Stack-based in-order walk seeded at the lower bound
+   */
+  private *_rangeIterator(
+    lo: T,
+    hi: T,
+    loInclusive: boolean,
+    hiInclusive: boolean,
+  ): IterableIterator<T> {
+    if (lo == null || hi == null) return;
+
+    const stack: PersistentNode<T>[] = [];
+    let current = this._root;
+
+    // Seed the stack with the ancestors of the first value in range
+    while (current) {
+      const comparison = this._compareFn(current.value, lo);
+      if (comparison > 0 || (comparison === 0 && loInclusive)) {
+        stack.push(current);
+        current = current.left;
+      } else {
+        current = current.right;
+      }
+    }
+
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      const comparison = this._compareFn(node.value, hi);
+      if (comparison > 0 || (comparison === 0 && !hiInclusive)) return;
+
+      yield node.value;
+
+      current = node.right;
+      while (current) {
+        stack.push(current);
+        current = current.left;
+      }
+    }
+  }
+
+  /**
+   * @internal
+   * Stack-based in-order walk, mirrored when reverse is set
+   */
+  private *_inOrderGenerator(reverse: boolean): IterableIterator<T> {
+    const stack: PersistentNode<T>[] = [];
+    let current = this._root;
+
+    while (current || stack.length > 0) {
+      while (current) {
+        stack.push(current);
+        current = reverse ? current.right : current.left;
+      }
+
+      const node = stack.pop()!;
+      yield node.value;
+      current = reverse ? node.left : node.right;
+    }
+  }
+
+  /**
+   * @internal
+   * Stack-based pre-order walk
+   */
+  private *_preOrderGenerator(): IterableIterator<T> {
+    const stack: PersistentNode<T>[] = this._root ? [this._root] : [];
+
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      yield node.value;
+
+      // Right first so that the left subtree is visited first
+      if (node.right) stack.push(node.right);
+      if (node.left) stack.push(node.left);
+    }
+  }
+
+  /**
+   * @internal
+   * Single-stack post-order walk tracking the last visited node
+   */
+  private *_postOrderGenerator(): IterableIterator<T> {
+    const stack: PersistentNode<T>[] = [];
+    let current = this._root;
+    let lastVisited: PersistentNode<T> | null = null;
+
+    while (current || stack.length > 0) {
+      while (current) {
+        stack.push(current);
+        current = current.left;
+      }
+
+      const node = stack[stack.length - 1]!;
+      if (node.right && node.right !== lastVisited) {
+        current = node.right;
+        continue;
+      }
+
+      stack.pop();
+      lastVisited = node;
+      yield node.value;
+    }
+  }
+
+  /**
+   * @internal
+   * Queue-based breadth-first walk
+   */
+  private *_levelOrderGenerator(): IterableIterator<T> {
+    const queue: PersistentNode<T>[] = this._root ? [this._root] : [];
+
+    for (let head = 0; head < queue.length; head++) {
+      const node = queue[head]!;
+      yield node.value;
+
+      if (node.left) queue.push(node.left);
+      if (node.right) queue.push(node.right);
+    }
+  }
+
+  /**
+   * @internal
+   * Validates the AVL balance invariant and cached metadata recursively
+   */
+  private _validateBalance(node: PersistentNode<T> | null): boolean {
+    if (!node) return true;
+
+    const leftHeight = heightOf(node.left);
+    const rightHeight = heightOf(node.right);
+
+    return (
+      Math.abs(leftHeight - rightHeight) <= 1 &&
+      node.height === 1 + Math.max(leftHeight, rightHeight) &&
+      node.size === 1 + sizeOf(node.left) + sizeOf(node.right) &&
+      this._validateBalance(node.left) &&
+      this._validateBalance(node.right)
+    );
+  }
+}
@@ -0,0 +1,300 @@
+import { Comparator, createDefaultComparator } from "./Comparator";
+
+export type { Comparator } from "./Comparator";
+
+/**
+ * Configuration options for a PriorityQueue
+ * @template T The type of elements stored in the queue
+ */
+export interface PriorityQueueOptions<T> {
+  /** Comparator ordering the priorities (defaults to the natural ordering) */
+  compareFn?: Comparator<T>;
+
+  /** Whether the largest value is served first (defaults to `false`) */
+  maxHeap?: boolean;
+}
+
+/**
+ * A priority queue backed by an array binary heap.
+ * Enqueue and dequeue run in O(log n), peek in O(1).
+ * By default it is a min-heap: the smallest value according to the
+ * comparator is served first. Equal priorities are served in no
+ * particular order.
+ *
+ * @typeParam T - The type of elements stored in the queue.
+ */
+export class PriorityQueue<T> {
+  /** Heap array: the children of index i live at 2i + 1 and 2i + 2 */
+  private heap: T[] = [];
+
+  /** Returns a negative number when a must be served before b */
+  private readonly compareFn: Comparator<T>;
+
+  /** Modification counter used to detect mutation during iteration */
+  private modCount: number = 0;
+
+  /**
+   * Creates an empty priority queue.
+   *
+   * @param compareFnOrOptions - Optional comparator or queue options.
+   * @example
+   * ```typescript
+   * const tasks = new PriorityQueue<Task>((a, b) => a.priority - b.priority);
+   * const scores = new PriorityQueue<number>({ maxHeap: true });
+   * ```
+   */
+  constructor(compareFnOrOptions?: Comparator<T> | PriorityQueueOptions<T>) {
+    const options: PriorityQueueOptions<T> =
+      typeof compareFnOrOptions === "function"
+        ? { compareFn: compareFnOrOptions }
+        : compareFnOrOptions || {};
+
+    const compareFn = options.compareFn || createDefaultComparator<T>();
+    this.compareFn = options.maxHeap ? (a, b) => compareFn(b, a) : compareFn;
+  }
+
+  /**
+   * Creates a min-heap priority queue, serving the smallest value first.
+   *
+   * @param compareFn - Optional comparator.
+   * @returns A new PriorityQueue instance.
+   */
+  static minHeap<T>(compareFn?: Comparator<T>): PriorityQueue<T> {
+    return new PriorityQueue<T>({ compareFn });
+  }
+
+  /**
+   * Creates a max-heap priority queue, serving the largest value first.
+   *
+   * @param compareFn - Optional comparator.
+   * @returns A new PriorityQueue instance.
+   */
+  static maxHeap<T>(compareFn?: Comparator<T>): PriorityQueue<T> {
+    return new PriorityQueue<T>({ compareFn, maxHeap: true });
+  }
+
+  /**
+   * Adds a value to the queue.
+   *
+   * @param value - The value to enqueue.
+   * @throws Error if the value is null or undefined
+   */
+  enqueue(value: T): void {
+    if (value == null) {
+      throw new Error(
+        "[PriorityQueue.enqueue] Cannot enqueue null or undefined value.",
+      );
+    }
+
+    this.heap.push(value);
+    this.siftUp(this.heap.length - 1);
+    this.modCount++;
+  }
+
+  /**
+   * Removes and returns the value with the highest priority.
+   *
+   * @returns The dequeued value, or `null` if the queue is empty.
+   */
+  dequeue(): T | null {
+    if (this.heap.length === 0) return null;
+
+    const top = this.heap[0]!;
+    const last = this.heap.pop()!;
+    if (this.heap.length > 0) {
+      this.heap[0] = last;
+      this.siftDown(0);
+    }
+
+    this.modCount++;
+    return top;
+  }
+
+  /**
+   * Returns the value with the highest priority without removing it.
+   *
+   * @returns The front value, or `null` if the queue is empty.
+   */
+  peek(): T | null {
+    return this.heap.length > 0 ? this.heap[0]! : null;
+  }
+
+  /**
+   * Removes all values from the queue.
+   */
+  clear(): void {
+    this.heap = [];
+    this.modCount++;
+  }
+
+  /**
+   * Checks whether the queue is empty.
+   *
+   * @returns `true` if the queue contains no elements, `false` otherwise.
+   */
+  isEmpty(): boolean {
+    return this.heap.length === 0;
+  }
+
+  /**
+   * The number of elements in the queue.
+   */
+  get size(): number {
+    return this.heap.length;
+  }
+
+  /**
+   * Returns an array containing all elements in the queue, in the order
+   * they would be dequeued. The queue itself is left untouched.
+   *
+   * @returns An array of values.
+   */
+  toArray(): T[] {
+    return [...this];
+  }
+
+  /**
+   * Creates a PriorityQueue from an array in O(n), using bottom-up heapify.
+   *
+   * @param arr - The array of values.
+   * @param compareFnOrOptions - Optional comparator or queue options.
+   * @returns A new PriorityQueue instance.
+   * @throws Error if the array contains null or undefined values
+   */
+  static fromArray<T>(
+    arr: T[],
+    compareFnOrOptions?: Comparator<T> | PriorityQueueOptions<T>,
+  ): PriorityQueue<T> {
+    if (arr.some((value) => value == null)) {
+      throw new Error(
+        "[PriorityQueue.fromArray] Cannot enqueue null or undefined value.",
+      );
+    }
+
+    const queue = new PriorityQueue<T>(compareFnOrOptions);
+    queue.heap = arr.slice();
+    for (let i = (queue.heap.length >> 1) - 1; i >= 0; i--) {
+      queue.siftDown(i);
+    }
+    return queue;
+  }
+
+  /**
+   * Allows iteration over the queue in dequeue order using `for..of` syntax,
+   * without consuming it. Each step costs O(log n).
+   * Throws if the queue is mutated during iteration.
+   *
+   * @returns An iterator over the queue values.
+   */
+  *[Symbol.iterator](): Iterator<T> {
+    const expectedModCount = this.modCount;
+    // Frontier of heap indices, itself kept as a heap ordered by value
+    const frontier: number[] = this.heap.length > 0 ? [0] : [];
+    const before = (i: number, j: number) =>
+      this.compareFn(this.heap[i]!, this.heap[j]!) < 0;
+
+    while (frontier.length > 0) {
+      if (this.modCount !== expectedModCount) {
+        throw new Error(
+          "[PriorityQueue.iterator] Queue was mutated during iteration.",
+        );
+      }
+
+      const index = frontier[0]!;
+      const last = frontier.pop()!;
+      if (frontier.length > 0) {
+        frontier[0] = last;
+        siftDownIndices(frontier, 0, before);
+      }
+
+      for (const child of [2 * index + 1, 2 * index + 2]) {
+        if (child < this.heap.length) {
+          frontier.push(child);
+          siftUpIndices(frontier, frontier.length - 1, before);
+        }
+      }
+
+      yield this.heap[index]!;
+    }
+  }
+
+  /**
+   * Moves the value at the given index up until its parent comes first.
+   */
+  private siftUp(index: number): void {
+    const value = this.heap[index]!;
+
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.compareFn(value, this.heap[parent]!) >= 0) break;
+      this.heap[index] = this.heap[parent]!;
+      index = parent;
+    }
+
+    this.heap[index] = value;
+  }
+
+  /**
+   * Moves the value at the given index down until both children come after it.
+   */
+  private siftDown(index: number): void {
+    const heap = this.heap;
+    const value = heap[index]!;
+    const half = heap.length >> 1;
+
+    while (index < half) {
+      let child = 2 * index + 1;
+      const right = child + 1;
+      if (
+        right < heap.length &&
+        this.compareFn(heap[right]!, heap[child]!) < 0
+      ) {
+        child = right;
+      }
+      if (this.compareFn(heap[child]!, value) >= 0) break;
+      heap[index] = heap[child]!;
+      index = child;
+    }
+
+    heap[index] = value;
+  }
+}
+
+/**
+ * @internal
+ * Sift-up on a heap of indices, used by the non-destructive iterator
+ */
+function siftUpIndices(
+  heap: number[],
+  index: number,
+  before: (i: number, j: number) => boolean,
+): void {
+  while (index > 0) {
+    const parent = (index - 1) >> 1;
+    if (!before(heap[index]!, heap[parent]!)) break;
+    [heap[index], heap[parent]] = [heap[parent]!, heap[index]!];
+    index = parent;
+  }
+}
+
+/**
+ * @internal
+ * Sift-down on a heap of indices, used by the non-destructive iterator
+ */
+function siftDownIndices(
+  heap: number[],
+  index: number,
+  before: (i: number, j: number) => boolean,
+): void {
+  for (;;) {
+    let first = index;
+    for (const child of [2 * index + 1, 2 * index + 2]) {
+      if (child < heap.length && before(heap[child]!, heap[first]!)) {
+        first = child;
+      }
+    }
+    if (first === index) return;
+    [heap[index], heap[first]] = [heap[first]!, heap[index]!];
+    index = first;
+  }
+}
@@ -0,0 +1,606 @@
+import { Comparator, createDefaultComparator } from "./Comparator";
+
+/**
+ * @internal
+ * Node color in a red-black tree
+ */
+type Color = "red" | "black";
+
+/**
+ * @internal
+ * Red-black tree node with a parent link for bottom-up fixups
+ * @template T The type of data stored in the node
+ */
+class RBNode<T> {
+  /** @internal The data stored in this node */
+  public value: T;
+
+  /** @internal Reference to the left child node */
+  public left: RBNode<T> | null = null;
+
+  /** @internal Reference to the right child node */
+  public right: RBNode<T> | null = null;
+
+  /** @internal Reference to the parent node (null for the root) */
+  public parent: RBNode<T> | null;
+
+  /** @internal Node color, new nodes are always red */
+  public color: Color = "red";
+
+  /**
+   * @internal
+   * Creates a new red node
+   * @param value The data to store in the node
+   * @param parent The parent node, or null for the root
+   */
+  constructor(value: T, parent: RBNode<T> | null) {
+    this.value = value;
+    this.parent = parent;
+  }
+}
+
+/**
+ * Red-black tree implementation sharing the BinarySearchTree API
+ * Features:
+ * - Guaranteed O(log n) insert, remove and search
+ * - At most two rotations per insertion and three per removal
+ * - Iterative operations to prevent stack overflow
+ * - Invariant checker for coloring and black heights
+ *
+ * @template T The type of data stored in the tree
+ */
+export class RedBlackTree<T> {
+  /** Root node of the tree */
+  private _root: RBNode<T> | null = null;
+
+  /** Number of nodes in the tree */
+  private _size: number = 0;
+
+  /** Comparator function for ordering elements */
+  private readonly _compareFn: Comparator<T>;
+
+  /**
+   * Creates a new Red-Black Tree
+   * @param compareFn Optional custom comparator function
+   * @param rootValue Optional initial root value
+   * @example
+   * ```typescript
+   * const tree = new RedBlackTree<number>();
+   * const personTree = new RedBlackTree<Person>((a, b) => a.age - b.age);
+   * ```
+   */
+  constructor(compareFn?: Comparator<T>, rootValue?: T) {
+    this._compareFn = compareFn || createDefaultComparator<T>();
+
+    if (rootValue !== undefined) {
+      this.insert(rootValue);
+    }
+  }
+
+  /**
+   * Gets the number of nodes in the tree
+   * @returns The size of the tree
+   */
+  get size(): number {
+    return this._size;
+  }
+
+  /**
+   * Checks if the tree is empty
+   * @returns True if the tree has no nodes
+   */
+  get isEmpty(): boolean {
+    return this._root === null;
+  }
+
+  /**
+   * Gets the height of the tree
+   * Computed level by level, O(n)
+   * @returns The height of the tree (-1 for empty tree)
+   */
+  get height(): number {
+    if (!this._root) return -1;
+
+    let level: RBNode<T>[] = [this._root];
+    let height = -1;
+
+    while (level.length > 0) {
+      height++;
+      const next: RBNode<T>[] = [];
+      for (const node of level) {
+        if (node.left) next.push(node.left);
+        if (node.right) next.push(node.right);
+      }
+      level = next;
+    }
+
+    return height;
+  }
+
+  /**
+   * Gets the root value of the tree
+   * @returns The root value or null if empty
+   */
+  getRootValue(): T | null {
+    return this._root ? this._root.value : null;
+  }
+
+  /**
+   * Inserts a value into the tree
+   * Duplicates are ignored
+   * @param value The value to insert
+   * @throws Error if value is null or undefined
+   */
+  insert(value: T): void {
+    if (value == null) {
+      throw new Error("Cannot insert null or undefined value");
+    }
+
+    let current = this._root;
+    let parent: RBNode<T> | null = null;
+    let comparison = 0;
+
+    // Find insertion point
+    while (current) {
+      parent = current;
+      comparison = this._compareFn(value, current.value);
+
+      if (comparison === 0) {
+        // Duplicate found - ignore
+        return;
+      }
+
+      current = comparison < 0 ? current.left : current.right;
+    }
+
+    const newNode = new RBNode(value, parent);
+    if (!parent) {
+      this._root = newNode;
+    } else if (comparison < 0) {
+      parent.left = newNode;
+    } else {
+      parent.right = newNode;
+    }
+
+    this._size++;
+    this._insertFixup(newNode);
+  }
+
+  /**
+   * Inserts multiple values into the tree
+   * @param values Array of values to insert
+   */
+  insertBatch(values: T[]): void {
+    for (const value of values) {
+      this.insert(value);
+    }
+  }
+
+  /**
+   * Removes a value from the tree
+   * @param value The value to remove
+   * @returns True if the value was found and removed, false otherwise
+   */
+  remove(value: T): boolean {
+    if (this.isEmpty || value == null) {
+      return false;
+    }
+
+    const node = this._findNode(value);
+    if (!node) return false;
+
+    this._removeNode(node);
+    this._size--;
+    return true;
+  }
+
+  /**
+   * Searches for a value in the tree
+   * @param value The value to search for
+   * @returns The found value or null if not found
+   */
+  search(value: T): T | null {
+    if (this.isEmpty || value == null) {
+      return null;
+    }
+
+    const node = this._findNode(value);
+    return node ? node.value : null;
+  }
+
+  /**
+   * Checks if the tree contains a specific value
+   * @param value The value to check for
+   * @returns True if the value exists in the tree
+   */
+  contains(value: T): boolean {
+    return this.search(value) !== null;
+  }
+
+  /**
+   * Finds the minimum value in the tree
+   * @returns The minimum value or null if tree is empty
+   */
+  findMin(): T | null {
+    return this._root ? this._minimum(this._root).value : null;
+  }
+
+  /**
+   * Finds the maximum value in the tree
+   * @returns The maximum value or null if tree is empty
+   */
+  findMax(): T | null {
+    if (!this._root) return null;
+
+    let current = this._root;
+    while (current.right) {
+      current = current.right;
+    }
+    return current.value;
+  }
+
+  /**
+   * Performs in-order traversal of the tree
+   * @returns Array of values in sorted order
+   */
+  inOrderTraversal(): T[] {
+    const result: T[] = [];
+    const stack: RBNode<T>[] = [];
+    let current = this._root;
+
+    while (current || stack.length > 0) {
+      while (current) {
+        stack.push(current);
+        current = current.left;
+      }
+
+      current = stack.pop()!;
+      result.push(current.value);
+      current = current.right;
+    }
+
+    return result;
+  }
+
+  /**
+   * Converts the tree to a sorted array
+   * @returns Array of all values in ascending order
+   */
+  toArray(): T[] {
+    return this.inOrderTraversal();
+  }
+
+  /**
+   * Removes all nodes from the tree
+   */
+  clear(): void {
+    this._root = null;
+    this._size = 0;
+  }
+
+  /**
+   * Validates that the tree maintains BST ordering
+   * @returns True if values are strictly increasing in order
+   */
+  isValidBST(): boolean {
+    const values = this.inOrderTraversal();
+    for (let i = 1; i < values.length; i++) {
+      if (this._compareFn(values[i - 1]!, values[i]!) >= 0) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Validates every red-black invariant:
+   * - BST ordering and consistent parent links
+   * - The root is black
+   * - A red node never has a red child
+   * - Every root-to-leaf path contains the same number of black nodes
+   * @returns True if the tree is a valid red-black tree
+   */
+  isValidRedBlackTree(): boolean {
+    if (!this._root) return true;
+    if (this._root.color !== "black" || this._root.parent !== null) {
+      return false;
+    }
+
+    return this.isValidBST() && this._validateBlackHeight(this._root) !== -1;
+  }
+
+  // ================================
+  // PRIVATE HELPER METHODS
+  // ================================
+
+  /**
+   * @internal
+   * Iterative lookup of the node holding a value
+   */
+  private _findNode(value: T): RBNode<T> | null {
+    let current = this._root;
+
+    while (current) {
+      const comparison = this._compareFn(value, current.value);
+
+      if (comparison === 0) {
+        return current;
+      }
+
+      current = comparison < 0 ? current.left : current.right;
+    }
+
+    return null;
+  }
+
+  /**
+   * @internal
+   * Leftmost node of a subtree
+   */
+  private _minimum(node: RBNode<T>): RBNode<T> {
+    while (node.left) {
+      node = node.left;
+    }
+    return node;
+  }
+
+  /**
+   * @internal
+   * Color of a node, null leaves count as black
+   */
+  private _colorOf(node: RBNode<T> | null): Color {
+    return node ? node.color : "black";
+  }
+
+  /**
+   * @internal
+   * Rotates a subtree to the left around node
+   */
+  private _rotateLeft(node: RBNode<T>): void {
+    const pivot = node.right!;
+    node.right = pivot.left;
+    if (pivot.left) pivot.left.parent = node;
+
+    this._replaceChild(node, pivot);
+
+    pivot.left = node;
+    node.parent = pivot;
+  }
+
+  /**
+   * @internal
+   * Rotates a subtree to the right around node
+   */
+  private _rotateRight(node: RBNode<T>): void {
+    const pivot = node.left!;
+    node.left = pivot.right;
+    if (pivot.right) pivot.right.parent = node;
+
+    this._replaceChild(node, pivot);
+
+    pivot.right = node;
+    node.parent = pivot;
+  }
+
+  /**
+   * @internal
+   * Points the parent link of oldChild (or the root) at newChild
+   */
+  private _replaceChild(oldChild: RBNode<T>, newChild: RBNode<T> | null): void {
+    const parent = oldChild.parent;
+
+    if (!parent) {
+      this._root = newChild;
+    } else if (parent.left === oldChild) {
+      parent.left = newChild;
+    } else {
+      parent.right = newChild;
+    }
+
+    if (newChild) newChild.parent = parent;
+  }
+
+  /**
+   * @internal
+   * Restores the red-black invariants after inserting a red node
+   */
+  private _insertFixup(node: RBNode<T>): void {
+    while (this._colorOf(node.parent) === "red") {
+      // A red parent is never the root, so the grandparent exists
+      const parent = node.parent!;
+      const grandparent = parent.parent!;
+
+      if (parent === grandparent.left) {
+        const uncle = grandparent.right;
+
+        if (this._colorOf(uncle) === "red") {
+          // Case 1: recolor and continue from the grandparent
+          parent.color = "black";
+          uncle!.color = "black";
+          grandparent.color = "red";
+          node = grandparent;
+          continue;
+        }
+
+        if (node === parent.right) {
+          // Case 2: rotate into the outer position
+          node = parent;
+          this._rotateLeft(node);
+        }
+
+        // Case 3: recolor and rotate the grandparent
+        node.parent!.color = "black";
+        grandparent.color = "red";
+        this._rotateRight(grandparent);
+      } else {
+        const uncle = grandparent.left;
+
+        if (this._colorOf(uncle) === "red") {
+          parent.color = "black";
+          uncle!.color = "black";
+          grandparent.color = "red";
+          node = grandparent;
+          continue;
+        }
+
+        if (node === parent.left) {
+          node = parent;
+          this._rotateRight(node);
+        }
+
+        node.parent!.color = "black";
+        grandparent.color = "red";
+        this._rotateLeft(grandparent);
+      }
+    }
+
+    this._root!.color = "black";
+  }
+
+  /**
+   * @internal
+   * Unlinks a node and restores the invariants if a black node was lost
+   */
+  private _removeNode(node: RBNode<T>): void {
+    let removedColor = node.color;
+    let child: RBNode<T> | null;
+    let childParent: RBNode<T> | null;
+
+    if (!node.left || !node.right) {
+      // At most one child: splice the node out
+      child = node.left || node.right;
+      childParent = node.parent;
+      this._replaceChild(node, child);
+    } else {
+      // Two children: move the in-order successor into its place
+      const successor = this._minimum(node.right);
+      removedColor = successor.color;
+      child = successor.right;
+
+      if (successor.parent === node) {
+        childParent = successor;
+      } else {
+        childParent = successor.parent;
+        this._replaceChild(successor, successor.right);
+        successor.right = node.right;
+        successor.right.parent = successor;
+      }
+
+      this._replaceChild(node, successor);
+      successor.left = node.left;
+      successor.left.parent = successor;
+      successor.color = node.color;
+    }
+
+    if (removedColor === "black") {
+      this._removeFixup(child, childParent);
+    }
+  }
+
+  /**
+   * @internal
+   * Restores the invariants after removing a black node
+   * The child may be a null leaf, so its parent is tracked separately
+   */
+  private _removeFixup(node: RBNode<T> | null, parent: RBNode<T> | null): void {
+    while (node !== this._root && this._colorOf(node) === "black") {
+      // The doubly black side always has a parent and a non-null sibling
+      const nodeParent = parent!;
+
+      if (node === nodeParent.left) {
+        let sibling = nodeParent.right!;
+
+        if (sibling.color === "red") {
+          // Case 1: make the sibling black
+          sibling.color = "black";
+          nodeParent.color = "red";
+          this._rotateLeft(nodeParent);
+          sibling = nodeParent.right!;
+        }
+
+        if (
+          this._colorOf(sibling.left) === "black" &&
+          this._colorOf(sibling.right) === "black"
+        ) {
+          // Case 2: push the extra black up
+          sibling.color = "red";
+          node = nodeParent;
+          parent = nodeParent.parent;
+          continue;
+        }
+
+        if (this._colorOf(sibling.right) === "black") {
+          // Case 3: move the red nephew to the outer position
+          sibling.left!.color = "black";
+          sibling.color = "red";
+          this._rotateRight(sibling);
+          sibling = nodeParent.right!;
+        }
+
+        // Case 4: absorb the extra black with one rotation
+        sibling.color = nodeParent.color;
+        nodeParent.color = "black";
+        sibling.right!.color = "black";
+        this._rotateLeft(nodeParent);
+        node = this._root;
+        parent = null;
+      } else {
+        let sibling = nodeParent.left!;
+
+        if (sibling.color === "red") {
+          sibling.color = "black";
+          nodeParent.color = "red";
+          this._rotateRight(nodeParent);
+          sibling = nodeParent.left!;
+        }
+
+        if (
+          this._colorOf(sibling.left) === "black" &&
+          this._colorOf(sibling.right) === "black"
+        ) {
+          sibling.color = "red";
+          node = nodeParent;
+          parent = nodeParent.parent;
+          continue;
+        }
+
+        if (this._colorOf(sibling.left) === "black") {
+          sibling.right!.color = "black";
+          sibling.color = "red";
+          this._rotateLeft(sibling);
+          sibling = nodeParent.left!;
+        }
+
+        sibling.color = nodeParent.color;
+        nodeParent.color = "black";
+        sibling.left!.color = "black";
+        this._rotateRight(nodeParent);
+        node = this._root;
+        parent = null;
+      }
+    }
+
+    if (node) node.color = "black";
+  }
+
+  /**
+   * @internal
+   * Validates coloring and parent links recursively
+   * @returns The black height of the subtree, or -1 if it is invalid
+   */
+  private _validateBlackHeight(node: RBNode<T> | null): number {
+    if (!node) return 0;
+
+    for (const child of [node.left, node.right]) {
+      if (!child) continue;
+      if (child.parent !== node) return -1;
+      if (node.color === "red" && child.color === "red") return -1;
+    }
+
+    const leftBlackHeight = this._validateBlackHeight(node.left);
+    if (leftBlackHeight === -1) return -1;
+
+    const rightBlackHeight = this._validateBlackHeight(node.right);
+    if (rightBlackHeight !== leftBlackHeight) return -1;
+
+    return leftBlackHeight + (node.color === "black" ? 1 : 0);
+  }
+}
@@ -0,0 +1,255 @@
+/**
+ * Nested, JSON-serializable form of a binary tree, node by node
+ * @template T The type of the stored values
+ */
+export interface SerializedNode<T> {
+  /** The node value */
+  value: T;
+
+  /** Multiplicity of the value, omitted when 1 (multiset trees only) */
+  count?: number;
+
+  /** The left subtree */
+  left: SerializedNode<T> | null;
+
+  /** The right subtree */
+  right: SerializedNode<T> | null;
+}
+
+/**
+ * Restores a value from its parsed JSON form (e.g. an ISO string into a Date)
+ * @template T The type of the restored values
+ */
+export type Reviver<T> = (value: unknown) => T;
+
+/**
+ * @internal
+ * Read access to the nodes of a tree implementation
+ */
+export interface NodeAdapter<N, T> {
+  value(node: N): T;
+  count(node: N): number;
+  left(node: N): N | null;
+  right(node: N): N | null;
+}
+
+/**
+ * @internal
+ * Creates a node once both of its subtrees have been built
+ */
+export type NodeBuilder<N, T> = (
+  value: T,
+  count: number,
+  left: N | null,
+  right: N | null,
+) => N;
+
+/** @internal Pre-order entry: a node value, or null for an empty subtree */
+type Entry<T> = { value: T; count: number } | null;
+
+/** @internal Marker of an empty subtree in the compact form */
+const NULL_MARKER = "#";
+
+/**
+ * @internal
+ * Converts a tree into its nested JSON form, iteratively
+ */
+export function nodesToJSON<N, T>(
+  root: N | null,
+  adapter: NodeAdapter<N, T>,
+): SerializedNode<T> | null {
+  const toJSON = (node: N | null): SerializedNode<T> | null => {
+    if (node === null) return null;
+
+    const json: SerializedNode<T> = {
+      value: adapter.value(node),
+      left: null,
+      right: null,
+    };
+    const count = adapter.count(node);
+    if (count !== 1) json.count = count;
+    return json;
+  };
+
+  const rootJSON = toJSON(root);
+  const stack: [N, SerializedNode<T>][] = root ? [[root, rootJSON!]] : [];
+
+  while (stack.length > 0) {
+    const [node, json] = stack.pop()!;
+    const left = adapter.left(node);
+    const right = adapter.right(node);
+
+    json.left = toJSON(left);
+    json.right = toJSON(right);
+    if (left) stack.push([left, json.left!]);
+    if (right) stack.push([right, json.right!]);
+  }
+
+  return rootJSON;
+}
+
+/**
+ * @internal
+ * Rebuilds a tree from its nested JSON form
+ * @throws Error if the JSON does not describe a tree
+ */
+export function nodesFromJSON<N, T>(
+  json: SerializedNode<unknown> | null,
+  build: NodeBuilder<N, T>,
+  reviver: Reviver<T>,
+  method: string,
+): N | null {
+  // Pre-order walk of the JSON, yielding null for empty subtrees
+  const pending: (SerializedNode<unknown> | null)[] = [json];
+
+  return buildPreorder(
+    () => {
+      if (pending.length === 0) return undefined;
+
+      const node = pending.pop()!;
+      if (node === null) return null;
+
+      if (
+        typeof node !== "object" ||
+        !("value" in node) ||
+        node.left === undefined ||
+        node.right === undefined
+      ) {
+        throw new Error(`[${method}] Malformed serialized tree.`);
+      }
+
+      pending.push(node.right, node.left);
+      return {
+        value: reviver(node.value),
+        count: parseCount(node.count ?? 1, method),
+      };
+    },
+    build,
+    method,
+  );
+}
+
+/**
+ * @internal
+ * Encodes a tree as comma-separated pre-order tokens, "#" marking empty
+ * subtrees. Values are URI-encoded JSON, followed by ":count" when the
+ * multiplicity is not 1
+ */
+export function serializeNodes<N, T>(
+  root: N | null,
+  adapter: NodeAdapter<N, T>,
+): string {
+  const tokens: string[] = [];
+  const stack: (N | null)[] = [root];
+
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    if (node === null) {
+      tokens.push(NULL_MARKER);
+      continue;
+    }
+
+    const count = adapter.count(node);
+    const value = encodeURIComponent(JSON.stringify(adapter.value(node)));
+    tokens.push(count === 1 ? value : `${value}:${count}`);
+    stack.push(adapter.right(node), adapter.left(node));
+  }
+
+  return tokens.join(",");
+}
+
+/**
+ * @internal
+ * Rebuilds a tree from the compact pre-order form
+ * @throws Error if the text is not a serialized tree
+ */
+export function deserializeNodes<N, T>(
+  text: string,
+  build: NodeBuilder<N, T>,
+  reviver: Reviver<T>,
+  method: string,
+): N | null {
+  const tokens = text.split(",");
+  let next = 0;
+
+  return buildPreorder(
+    () => {
+      if (next >= tokens.length) return undefined;
+
+      const token = tokens[next++]!;
+      if (token === NULL_MARKER) return null;
+
+      const [encoded, count, ...rest] = token.split(":");
+      let value: unknown;
+      try {
+        value = JSON.parse(decodeURIComponent(encoded!));
+      } catch {
+        throw new Error(`[${method}] Malformed serialized tree.`);
+      }
+      if (rest.length > 0) {
+        throw new Error(`[${method}] Malformed serialized tree.`);
+      }
+
+      return {
+        value: reviver(value),
+        count: count === undefined ? 1 : parseCount(Number(count), method),
+      };
+    },
+    build,
+    method,
+  );
+}
+
+/**
+ * @internal
+ * Validates a node multiplicity
+ */
+function parseCount(count: unknown, method: string): number {
+  if (typeof count !== "number" || !Number.isInteger(count) || count < 1) {
+    throw new Error(`[${method}] Malformed serialized tree.`);
+  }
+  return count;
+}
+
+/**
+ * @internal
+ * Builds a tree from a stream of pre-order entries without recursion
+ * Each node is created once both of its subtrees are complete; the stream
+ * returns undefined when exhausted, which must match the end of the tree
+ */
+function buildPreorder<N, T>(
+  nextEntry: () => Entry<T> | undefined,
+  build: NodeBuilder<N, T>,
+  method: string,
+): N | null {
+  const frames: { entry: NonNullable<Entry<T>>; left?: N | null }[] = [];
+
+  for (;;) {
+    // Descend along left subtrees until an empty one is read
+    let entry = nextEntry();
+    while (entry) {
+      frames.push({ entry });
+      entry = nextEntry();
+    }
+    if (entry === undefined) {
+      throw new Error(`[${method}] Malformed serialized tree.`);
+    }
+
+    // Climb while the right subtree of the top frame is complete
+    let subtree: N | null = null;
+    while (frames.length > 0 && frames[frames.length - 1]!.left !== undefined) {
+      const { entry: parent, left } = frames.pop()!;
+      subtree = build(parent.value, parent.count, left!, subtree);
+    }
+
+    if (frames.length === 0) {
+      if (nextEntry() !== undefined) {
+        throw new Error(`[${method}] Malformed serialized tree.`);
+      }
+      return subtree;
+    }
+
+    // The completed subtree is a left child: read the right one next
+    frames[frames.length - 1]!.left = subtree;
+  }
+}
@@ -0,0 +1,303 @@
+import { BinarySearchTree, BSTOptions } from "./BinarySearchTree";
+import { Comparator, createDefaultComparator } from "./Comparator";
+
+/**
+ * @internal
+ * Mutable key-value pair stored in the underlying tree
+ */
+interface Entry<K, V> {
+  key: K;
+  value: V;
+}
+
+/**
+ * Construction options for a TreeMap: the ordering and balancing of the
+ * underlying tree
+ * @template K The type of the ordered keys
+ */
+export type TreeMapOptions<K> = Pick<BSTOptions<K>, "compareFn" | "balance">;
+
+/**
+ * Sorted key-value map built on the BinarySearchTree engine.
+ * Keys are ordered by a comparator, so iteration and navigation
+ * queries always follow key order.
+ *
+ * The underlying tree is AVL-balanced unless another balance mode is given.
+ *
+ * @typeParam K - The type of keys in the map.
+ * @typeParam V - The type of values in the map.
+ */
+export class TreeMap<K, V> {
+  private tree: BinarySearchTree<Entry<K, V>>;
+
+  /** Counts added and removed keys, to detect mutation during iteration */
+  private modCount: number = 0;
+
+  /**
+   * Creates an empty map.
+   *
+   * @param compareFnOrOptions - Optional key comparator or map options.
+   * @example
+   * ```typescript
+   * const scores = new TreeMap<string, number>();
+   * const byLength = new TreeMap<string, number>((a, b) => a.length - b.length);
+   * ```
+   */
+  constructor(compareFnOrOptions?: Comparator<K> | TreeMapOptions<K>) {
+    const options: TreeMapOptions<K> =
+      typeof compareFnOrOptions === "function"
+        ? { compareFn: compareFnOrOptions }
+        : compareFnOrOptions || {};
+    const compareKeys = options.compareFn || createDefaultComparator<K>();
+
+    this.tree = new BinarySearchTree<Entry<K, V>>({
+      compareFn: (a, b) => compareKeys(a.key, b.key),
+      balance: options.balance || "avl",
+    });
+  }
+
+  /**
+   * The number of entries in the map.
+   */
+  get size(): number {
+    return this.tree.size;
+  }
+
+  /**
+   * Checks whether the map is empty.
+   *
+   * @returns `true` if the map has no entries.
+   */
+  isEmpty(): boolean {
+    return this.tree.isEmpty;
+  }
+
+  /**
+   * Returns the value associated with a key.
+   *
+   * @param key - The key to look up.
+   * @returns The value, or `undefined` if the key is absent.
+   */
+  get(key: K): V | undefined {
+    return this.findEntry(key)?.value;
+  }
+
+  /**
+   * Associates a value with a key, replacing any previous value.
+   *
+   * @param key - The key to set.
+   * @param value - The value to associate.
+   * @returns The map itself, for chaining.
+   * @throws {Error} If the key is null or undefined.
+   */
+  set(key: K, value: V): this {
+    if (key == null) {
+      throw new Error("[TreeMap.set] Cannot use null or undefined key.");
+    }
+
+    const existing = this.findEntry(key);
+    if (existing) {
+      existing.value = value;
+    } else {
+      this.tree.insert({ key, value });
+      this.modCount++;
+    }
+    return this;
+  }
+
+  /**
+   * Checks whether a key is present in the map.
+   *
+   * @param key - The key to look up.
+   * @returns `true` if the key is present.
+   */
+  has(key: K): boolean {
+    return this.findEntry(key) !== null;
+  }
+
+  /**
+   * Removes a key and its value from the map.
+   *
+   * @param key - The key to remove.
+   * @returns `true` if the key was present and removed.
+   */
+  delete(key: K): boolean {
+    if (key == null) return false;
+
+    const removed = this.tree.remove(this.probe(key));
+    if (removed) this.modCount++;
+    return removed;
+  }
+
+  /**
+   * Removes all entries from the map.
+   */
+  clear(): void {
+    this.tree.clear();
+    this.modCount++;
+  }
+
+  /**
+   * Returns the smallest key.
+   *
+   * @returns The first key, or `null` if the map is empty.
+   */
+  firstKey(): K | null {
+    return this.tree.findMin()?.key ?? null;
+  }
+
+  /**
+   * Returns the largest key.
+   *
+   * @returns The last key, or `null` if the map is empty.
+   */
+  lastKey(): K | null {
+    return this.tree.findMax()?.key ?? null;
+  }
+
+  /**
+   * Returns the greatest key less than or equal to the given key.
+   *
+   * @param key - The key to compare against.
+   * @returns The floor key, or `null` if none exists.
+   */
+  floorKey(key: K): K | null {
+    return key == null ? null : (this.tree.floor(this.probe(key))?.key ?? null);
+  }
+
+  /**
+   * Returns the smallest key greater than or equal to the given key.
+   *
+   * @param key - The key to compare against.
+   * @returns The ceiling key, or `null` if none exists.
+   */
+  ceilingKey(key: K): K | null {
+    return key == null
+      ? null
+      : (this.tree.ceiling(this.probe(key))?.key ?? null);
+  }
+
+  /**
+   * Returns the greatest key strictly less than the given key.
+   *
+   * @param key - The key to compare against.
+   * @returns The lower key, or `null` if none exists.
+   */
+  lowerKey(key: K): K | null {
+    return key == null ? null : (this.tree.lower(this.probe(key))?.key ?? null);
+  }
+
+  /**
+   * Returns the smallest key strictly greater than the given key.
+   *
+   * @param key - The key to compare against.
+   * @returns The higher key, or `null` if none exists.
+   */
+  higherKey(key: K): K | null {
+    return key == null
+      ? null
+      : (this.tree.higher(this.probe(key))?.key ?? null);
+  }
+
+  /**
+   * Iterates over `[key, value]` pairs in key order.
+   * Throws if a key is added or removed during iteration.
+   *
+   * @returns An iterator over the map entries.
+   */
+  *entries(): IterableIterator<[K, V]> {
+    for (const entry of this.walk("entries")) {
+      yield [entry.key, entry.value];
+    }
+  }
+
+  /**
+   * Iterates over the keys in order.
+   * Throws if a key is added or removed during iteration.
+   *
+   * @returns An iterator over the map keys.
+   */
+  *keys(): IterableIterator<K> {
+    for (const entry of this.walk("keys")) {
+      yield entry.key;
+    }
+  }
+
+  /**
+   * Iterates over the values in key order.
+   * Throws if a key is added or removed during iteration.
+   *
+   * @returns An iterator over the map values.
+   */
+  *values(): IterableIterator<V> {
+    for (const entry of this.walk("values")) {
+      yield entry.value;
+    }
+  }
+
+  /**
+   * Allows iteration over the map entries using `for..of` syntax.
+   *
+   * @returns An iterator over `[key, value]` pairs in key order.
+   */
+  [Symbol.iterator](): Iterator<[K, V]> {
+    return this.entries();
+  }
+
+  /**
+   * Creates a TreeMap from `[key, value]` pairs.
+   * Later pairs overwrite earlier ones with the same key.
+   *
+   * @param entries - The pairs to insert.
+   * @param compareFn - Optional key comparator.
+   * @returns A new TreeMap instance.
+   */
+  static fromEntries<K, V>(
+    entries: Iterable<readonly [K, V]>,
+    compareFn?: Comparator<K>,
+  ): TreeMap<K, V> {
+    const map = new TreeMap<K, V>(compareFn);
+    for (const [key, value] of entries) {
+      map.set(key, value);
+    }
+    return map;
+  }
+
+  /**
+   * Walks the stored entries in key order, checking for added or removed
+   * keys before the underlying tree iterator resumes.
+   */
+  private *walk(method: string): IterableIterator<Entry<K, V>> {
+    const expectedModCount = this.modCount;
+
+    for (const entry of this.tree.inOrder()) {
+      yield entry;
+
+      if (this.modCount !== expectedModCount) {
+        throw new Error(
+          `[TreeMap.${method}] Map was mutated during iteration.`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Finds the stored entry for a key.
+   */
+  private findEntry(key: K): Entry<K, V> | null {
+    return key == null ? null : this.tree.search(this.probe(key));
+  }
+
+  /**
+   * Builds a lookup entry carrying only a key.
+   * The comparator never reads its value, which throws if accessed.
+   */
+  private probe(key: K): Entry<K, V> {
+    return {
+      key,
+      get value(): never {
+        throw new Error("[TreeMap.probe] Lookup entries carry no value.");
+      },
+    };
+  }
+}
@@ -0,0 +1,297 @@
+import { NodeAdapter } from "./TreeCodec";
+
+/**
+ * Shape of an ASCII diagram
+ * - `"sideways"`: root on the left, right subtree above, one node per line
+ * - `"topDown"`: root on top, children below joined by / and \
+ */
+export type AsciiLayout = "sideways" | "topDown";
+
+/**
+ * Options for the ASCII rendering of a tree
+ * @template T The type of the stored values
+ */
+export interface AsciiOptions<T> {
+  /** Diagram shape (defaults to `"sideways"`) */
+  layout?: AsciiLayout;
+
+  /** Formats a value (defaults to `String(value)`) */
+  label?: (value: T) => string;
+}
+
+/**
+ * Options for the Graphviz DOT rendering of a tree
+ * @template T The type of the stored values
+ * @template P How the tree addresses the path to highlight
+ */
+export interface DotOptions<T, P> {
+  /** Name of the digraph (defaults to `"tree"`) */
+  name?: string;
+
+  /** Formats a value (defaults to `String(value)`) */
+  label?: (value: T) => string;
+
+  /** Path from the root to highlight, down to the given node */
+  highlight?: P;
+}
+
+/** @internal ASCII block of a rendered subtree */
+interface Block {
+  lines: string[];
+  width: number;
+
+  /** Column of the subtree root */
+  anchor: number;
+}
+
+/**
+ * @internal
+ * Formats a node label, appending its multiplicity when above 1
+ */
+function formatLabel<N, T>(
+  node: N,
+  adapter: NodeAdapter<N, T>,
+  label: (value: T) => string,
+): string {
+  const count = adapter.count(node);
+  const text = label(adapter.value(node));
+  return count === 1 ? text : `${text} (x${count})`;
+}
+
+/**
+ * @internal
+ * Renders a tree as an ASCII diagram, without trailing spaces
+ * @returns The diagram, or an empty string for an empty tree
+ */
+export function renderAscii<N, T>(
+  root: N | null,
+  adapter: NodeAdapter<N, T>,
+  options: AsciiOptions<T>,
+): string {
+  const label = options.label || ((value: T) => String(value));
+  const lines =
+    options.layout === "topDown"
+      ? renderTopDown(root, adapter, label)
+      : renderSideways(root, adapter, label);
+
+  return lines.map((line) => line.trimEnd()).join("\n");
+}
+
+/**
+ * @internal
+ * One node per line in reverse in-order, so that the right subtree is
+ * drawn above its parent and the left subtree below
+ */
+function renderSideways<N, T>(
+  root: N | null,
+  adapter: NodeAdapter<N, T>,
+  label: (value: T) => string,
+): string[] {
+  type Frame =
+    | { line: string }
+    | { node: N; prefix: string; side: "root" | "left" | "right" };
+
+  const lines: string[] = [];
+  const stack: Frame[] = root ? [{ node: root, prefix: "", side: "root" }] : [];
+
+  while (stack.length > 0) {
+    const frame = stack.pop()!;
+    if ("line" in frame) {
+      lines.push(frame.line);
+      continue;
+    }
+
+    const { node, prefix, side } = frame;
+    const connector =
+      side === "root" ? "" : side === "right" ? "/-- " : "\\-- ";
+    // A vertical bar links children drawn on the far side of the parent line
+    const above =
+      prefix + (side === "left" ? "|   " : side === "root" ? "" : "    ");
+    const below =
+      prefix + (side === "right" ? "|   " : side === "root" ? "" : "    ");
+    const left = adapter.left(node);
+    const right = adapter.right(node);
+
+    if (left) stack.push({ node: left, prefix: below, side: "left" });
+    stack.push({
+      line: prefix + connector + formatLabel(node, adapter, label),
+    });
+    if (right) stack.push({ node: right, prefix: above, side: "right" });
+  }
+
+  return lines;
+}
+
+/**
+ * @internal
+ * Bottom-up layout placing each parent over the gap between its subtrees
+ */
+function renderTopDown<N, T>(
+  root: N | null,
+  adapter: NodeAdapter<N, T>,
+  label: (value: T) => string,
+): string[] {
+  if (!root) return [];
+
+  const blocks: (Block | null)[] = [];
+  const stack: { node: N | null; expanded: boolean }[] = [
+    { node: root, expanded: false },
+  ];
+
+  // Iterative post-order: subtree blocks are stacked left then right
+  while (stack.length > 0) {
+    const frame = stack.pop()!;
+
+    if (!frame.node) {
+      blocks.push(null);
+    } else if (!frame.expanded) {
+      frame.expanded = true;
+      stack.push(
+        frame,
+        { node: adapter.right(frame.node), expanded: false },
+        { node: adapter.left(frame.node), expanded: false },
+      );
+    } else {
+      const right = blocks.pop()!;
+      const left = blocks.pop()!;
+      blocks.push(
+        joinBlocks(formatLabel(frame.node, adapter, label), left, right),
+      );
+    }
+  }
+
+  return blocks.pop()!.lines;
+}
+
+/**
+ * @internal
+ * Places a label above the blocks of its subtrees
+ *
+ *      __5_
+ *     /    \
+ *     3    8
+ */
+function joinBlocks(
+  text: string,
+  left: Block | null,
+  right: Block | null,
+): Block {
+  const u = text.length;
+
+  if (!left && !right) {
+    return { lines: [text], width: u, anchor: u >> 1 };
+  }
+
+  if (!right) {
+    const { lines, width: n, anchor: x } = left!;
+    return {
+      lines: [
+        " ".repeat(x + 1) + "_".repeat(n - x - 1) + text,
+        " ".repeat(x) + "/" + " ".repeat(n - x - 1 + u),
+        ...lines.map((line) => line + " ".repeat(u)),
+      ],
+      width: n + u,
+      anchor: n + (u >> 1),
+    };
+  }
+
+  if (!left) {
+    const { lines, width: n, anchor: x } = right;
+    return {
+      lines: [
+        text + "_".repeat(x) + " ".repeat(n - x),
+        " ".repeat(u + x) + "\\" + " ".repeat(n - x - 1),
+        ...lines.map((line) => " ".repeat(u) + line),
+      ],
+      width: n + u,
+      anchor: u >> 1,
+    };
+  }
+
+  const { width: n, anchor: x } = left;
+  const { width: m, anchor: y } = right;
+  const height = Math.max(left.lines.length, right.lines.length);
+  const lines = [
+    " ".repeat(x + 1) +
+      "_".repeat(n - x - 1) +
+      text +
+      "_".repeat(y) +
+      " ".repeat(m - y),
+    " ".repeat(x) +
+      "/" +
+      " ".repeat(n - x - 1 + u + y) +
+      "\\" +
+      " ".repeat(m - y - 1),
+  ];
+
+  for (let i = 0; i < height; i++) {
+    const a = left.lines[i] ?? " ".repeat(n);
+    const b = right.lines[i] ?? " ".repeat(m);
+    lines.push(a + " ".repeat(u) + b);
+  }
+
+  return { lines, width: n + m + u, anchor: n + (u >> 1) };
+}
+
+/**
+ * @internal
+ * Renders a tree as a Graphviz DOT digraph
+ * Nodes with a single child get an invisible sibling so that left and right
+ * children keep their side in the layout
+ * @param highlighted Nodes of the path to highlight
+ */
+export function renderDot<N, T>(
+  root: N | null,
+  adapter: NodeAdapter<N, T>,
+  options: DotOptions<T, unknown>,
+  highlighted: Set<N>,
+): string {
+  const label = options.label || ((value: T) => String(value));
+  const lines = [`digraph ${quoteDot(options.name ?? "tree")} {`];
+  const stack: { node: N; id: string }[] = root
+    ? [{ node: root, id: "n0" }]
+    : [];
+  let nextId = 1;
+
+  while (stack.length > 0) {
+    const { node, id } = stack.pop()!;
+    const isHighlighted = highlighted.has(node);
+    const style = isHighlighted ? ', color="red", penwidth=2' : "";
+    lines.push(
+      `  ${id} [label=${quoteDot(formatLabel(node, adapter, label))}${style}];`,
+    );
+
+    const children = [adapter.left(node), adapter.right(node)];
+    const hasOneChild = (children[0] === null) !== (children[1] === null);
+    const pending: { node: N; id: string }[] = [];
+
+    for (const child of children) {
+      const childId = `n${nextId++}`;
+
+      if (child) {
+        const edgeStyle =
+          isHighlighted && highlighted.has(child)
+            ? ' [color="red", penwidth=2]'
+            : "";
+        lines.push(`  ${id} -> ${childId}${edgeStyle};`);
+        pending.push({ node: child, id: childId });
+      } else if (hasOneChild) {
+        lines.push(`  ${childId} [label="", style=invis];`);
+        lines.push(`  ${id} -> ${childId} [style=invis];`);
+      }
+    }
+
+    stack.push(...pending.reverse());
+  }
+
+  lines.push("}");
+  return lines.join("\n");
+}
+
+/**
+ * @internal
+ * Quotes a DOT identifier or label
+ */
+function quoteDot(text: string): string {
+  return `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`;
+}
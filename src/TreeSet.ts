@@ -0,0 +1,329 @@
+import { BinarySearchTree, BSTOptions } from "./BinarySearchTree";
+import { Comparator, createDefaultComparator } from "./Comparator";
+
+/**
+ * Construction options for a TreeSet: the ordering and balancing of the
+ * underlying tree
+ * @template T The type of the ordered elements
+ */
+export type TreeSetOptions<T> = Pick<BSTOptions<T>, "compareFn" | "balance">;
+
+/**
+ * Sorted set built on the BinarySearchTree engine.
+ * Set algebra is computed with linear-time merges of the sorted
+ * traversals, and results are built balanced in O(n + m).
+ *
+ * Set operations always use the comparator of the receiving set. When the
+ * other operand is ordered differently, its elements are first re-sorted
+ * (and those the receiver considers equal collapsed) in O(m log m).
+ *
+ * @typeParam T - The type of elements stored in the set.
+ */
+export class TreeSet<T> {
+  private tree: BinarySearchTree<T>;
+  private readonly options: TreeSetOptions<T>;
+
+  /**
+   * Creates an empty set.
+   * The underlying tree is AVL-balanced unless another balance mode is given.
+   *
+   * @param compareFnOrOptions - Optional comparator or set options.
+   */
+  constructor(compareFnOrOptions?: Comparator<T> | TreeSetOptions<T>) {
+    const options: TreeSetOptions<T> =
+      typeof compareFnOrOptions === "function"
+        ? { compareFn: compareFnOrOptions }
+        : compareFnOrOptions || {};
+
+    this.options = {
+      compareFn: options.compareFn || createDefaultComparator<T>(),
+      balance: options.balance || "avl",
+    };
+    this.tree = new BinarySearchTree<T>(this.options);
+  }
+
+  /**
+   * The number of elements in the set.
+   */
+  get size(): number {
+    return this.tree.size;
+  }
+
+  /**
+   * Checks whether the set is empty.
+   *
+   * @returns `true` if the set has no elements.
+   */
+  isEmpty(): boolean {
+    return this.tree.isEmpty;
+  }
+
+  /**
+   * Adds a value to the set. Values already present are ignored.
+   *
+   * @param value - The value to add.
+   * @returns The set itself, for chaining.
+   */
+  add(value: T): this {
+    this.tree.insert(value);
+    return this;
+  }
+
+  /**
+   * Checks whether a value is in the set.
+   *
+   * @param value - The value to look up.
+   * @returns `true` if the value is present.
+   */
+  has(value: T): boolean {
+    return this.tree.contains(value);
+  }
+
+  /**
+   * Removes a value from the set.
+   *
+   * @param value - The value to remove.
+   * @returns `true` if the value was present and removed.
+   */
+  delete(value: T): boolean {
+    return this.tree.remove(value);
+  }
+
+  /**
+   * Removes all elements from the set.
+   */
+  clear(): void {
+    this.tree.clear();
+  }
+
+  /**
+   * Returns the smallest element.
+   *
+   * @returns The first element, or `null` if the set is empty.
+   */
+  first(): T | null {
+    return this.tree.findMin();
+  }
+
+  /**
+   * Returns the largest element.
+   *
+   * @returns The last element, or `null` if the set is empty.
+   */
+  last(): T | null {
+    return this.tree.findMax();
+  }
+
+  /**
+   * Returns a set with the elements of both sets.
+   *
+   * @param other - The other set.
+   * @returns A new TreeSet.
+   */
+  union(other: TreeSet<T>): TreeSet<T> {
+    return this.merge(other, true, true, true);
+  }
+
+  /**
+   * Returns a set with the elements present in both sets.
+   *
+   * @param other - The other set.
+   * @returns A new TreeSet.
+   */
+  intersection(other: TreeSet<T>): TreeSet<T> {
+    return this.merge(other, false, true, false);
+  }
+
+  /**
+   * Returns a set with the elements of this set that are not in the other.
+   *
+   * @param other - The other set.
+   * @returns A new TreeSet.
+   */
+  difference(other: TreeSet<T>): TreeSet<T> {
+    return this.merge(other, true, false, false);
+  }
+
+  /**
+   * Returns a set with the elements present in exactly one of the sets.
+   *
+   * @param other - The other set.
+   * @returns A new TreeSet.
+   */
+  symmetricDifference(other: TreeSet<T>): TreeSet<T> {
+    return this.merge(other, true, false, true);
+  }
+
+  /**
+   * Checks whether every element of this set is in the other.
+   * Stops at the first missing element.
+   *
+   * @param other - The other set.
+   * @returns `true` if this set is a subset of the other.
+   */
+  isSubsetOf(other: TreeSet<T>): boolean {
+    if (this.size > other.size) return false;
+
+    const compareFn = this.options.compareFn!;
+    const otherValues = this.valuesOf(other).values();
+    let candidate = otherValues.next();
+
+    for (const value of this.tree.inOrder()) {
+      while (!candidate.done && compareFn(candidate.value, value) < 0) {
+        candidate = otherValues.next();
+      }
+      if (candidate.done || compareFn(candidate.value, value) !== 0) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Checks whether every element of the other set is in this set.
+   *
+   * @param other - The other set.
+   * @returns `true` if this set is a superset of the other.
+   */
+  isSupersetOf(other: TreeSet<T>): boolean {
+    return other.isSubsetOf(this);
+  }
+
+  /**
+   * Checks whether the sets have no element in common.
+   * Stops at the first shared element.
+   *
+   * @param other - The other set.
+   * @returns `true` if the sets are disjoint.
+   */
+  isDisjointFrom(other: TreeSet<T>): boolean {
+    const compareFn = this.options.compareFn!;
+    const left = this.tree.inOrder();
+    const right = this.valuesOf(other).values();
+    let a = left.next();
+    let b = right.next();
+
+    while (!a.done && !b.done) {
+      const comparison = compareFn(a.value, b.value);
+      if (comparison === 0) return false;
+
+      if (comparison < 0) {
+        a = left.next();
+      } else {
+        b = right.next();
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Converts the set into a sorted array.
+   *
+   * @returns An array of elements in ascending order.
+   */
+  toArray(): T[] {
+    return this.tree.toArray();
+  }
+
+  /**
+   * Iterates over the elements in ascending order.
+   *
+   * @returns An iterator over the set elements.
+   */
+  values(): IterableIterator<T> {
+    return this.tree.inOrder();
+  }
+
+  /**
+   * Allows iteration over the set using `for..of` syntax.
+   * Throws if the set is mutated during iteration.
+   *
+   * @returns An iterator over the elements in ascending order.
+   */
+  [Symbol.iterator](): Iterator<T> {
+    return this.tree.inOrder();
+  }
+
+  /**
+   * Creates a TreeSet from an array.
+   * Duplicates are collapsed.
+   *
+   * @param arr - The array of values.
+   * @param compareFn - Optional comparator.
+   * @returns A new TreeSet instance.
+   */
+  static fromArray<T>(arr: T[], compareFn?: Comparator<T>): TreeSet<T> {
+    const set = new TreeSet<T>(compareFn);
+    for (const value of arr) {
+      set.add(value);
+    }
+    return set;
+  }
+
+  /**
+   * Returns the elements of the other set in the order of this set.
+   * The traversal is used as is when it is already strictly ascending for
+   * this comparator; otherwise it is re-sorted and equal elements collapsed.
+   */
+  private valuesOf(other: TreeSet<T>): T[] {
+    const compareFn = this.options.compareFn!;
+    const values = other.tree.toArray();
+    const isOrdered = values.every(
+      (value, i) => i === 0 || compareFn(values[i - 1]!, value) < 0,
+    );
+    if (isOrdered) return values;
+
+    values.sort(compareFn);
+    return values.filter(
+      (value, i) => i === 0 || compareFn(values[i - 1]!, value) !== 0,
+    );
+  }
+
+  /**
+   * Merges the sorted traversals of both sets in a single pass.
+   * Each flag selects whether elements found only in this set,
+   * in both sets, or only in the other set are kept.
+   */
+  private merge(
+    other: TreeSet<T>,
+    keepLeftOnly: boolean,
+    keepBoth: boolean,
+    keepRightOnly: boolean,
+  ): TreeSet<T> {
+    const compareFn = this.options.compareFn!;
+    const left = this.tree.toArray();
+    const right = this.valuesOf(other);
+    const merged: T[] = [];
+    let i = 0;
+    let j = 0;
+
+    while (i < left.length && j < right.length) {
+      const comparison = compareFn(left[i]!, right[j]!);
+
+      if (comparison < 0) {
+        if (keepLeftOnly) merged.push(left[i]!);
+        i++;
+      } else if (comparison > 0) {
+        if (keepRightOnly) merged.push(right[j]!);
+        j++;
+      } else {
+        if (keepBoth) merged.push(left[i]!);
+        i++;
+        j++;
+      }
+    }
+
+    if (keepLeftOnly) {
+      while (i < left.length) merged.push(left[i++]!);
+    }
+    if (keepRightOnly) {
+      while (j < right.length) merged.push(right[j++]!);
+    }
+
+    const result = new TreeSet<T>(this.options);
+    result.tree = BinarySearchTree.fromSorted(merged, this.options);
+    return result;
+  }
+}
@@ -3,3 +3,13 @@ export { LinkedList } from "./LinkedList";
 export { DoublyLinkedList } from "./DoublyLinkedList";
 export { Queue } from "./Queue";
 export { Deque } from "./Deque";
+export { PriorityQueue } from "./PriorityQueue";
+export { Stack } from "./Stack";
+export { BinaryTree } from "./BinaryTree";
+export { BinarySearchTree } from "./BinarySearchTree";
+export { RedBlackTree } from "./RedBlackTree";
+export { TreeMap } from "./TreeMap";
+export { TreeSet } from "./TreeSet";
+export { PersistentBST } from "./PersistentBST";
+export { IntervalTree } from "./IntervalTree";
+export { ExpressionTree } from "./ExpressionTree";
@@ -1,5 +1,10 @@
 import { describe, test, expect, beforeEach } from "bun:test";
 import { BinarySearchTree } from "../src/BinarySearchTree";
+import { RangeError } from "../src/Errors";
+
+/** Serialized right-leaning chain 0 -> 1 -> ... -> length - 1 */
+const chainText = (length: number) =>
+  Array.from({ length }, (_, i) => `${i},#`).join(",") + ",#";
 
 describe("BinarySearchTree", () => {
   let tree: BinarySearchTree<number>;
@@ -116,6 +121,103 @@ describe("BinarySearchTree", () => {
     });
   });
 
+  describe("Sorted Construction", () => {
+    test("should build a balanced tree from sorted values", () => {
+      const sortedTree = BinarySearchTree.fromSorted([1, 2, 3, 4, 5, 6, 7]);
+
+      expect(sortedTree.size).toBe(7);
+      expect(sortedTree.height).toBe(2);
+      expect(sortedTree.getRootValue()).toBe(4);
+      expect(sortedTree.isValidBST()).toBe(true);
+    });
+
+    test("should reject unsorted or duplicate values", () => {
+      expect(() => BinarySearchTree.fromSorted([1, 3, 2])).toThrow(
+        "[BinarySearchTree.fromSorted] Values must be strictly ascending (index 2).",
+      );
+      expect(() => BinarySearchTree.fromSorted([1, 1])).toThrow();
+    });
+
+    test("should name the calling method in ordering errors", () => {
+      const a = BinarySearchTree.fromSorted([1, 2, 3]);
+      const b = BinarySearchTree.fromSorted([6, 5, 4], (x, y) => y - x);
+
+      expect(() => BinarySearchTree.merge(a, b)).toThrow(
+        "[BinarySearchTree.merge] Values must be ascending (index 4).",
+      );
+    });
+
+    test("should rebalance a degenerate tree in place", () => {
+      tree.insertBatch([1, 2, 3, 4, 5, 6, 7]);
+      expect(tree.height).toBe(6);
+
+      tree.rebalance();
+      expect(tree.height).toBe(2);
+      expect(tree.toArray()).toEqual([1, 2, 3, 4, 5, 6, 7]);
+      expect(tree.select(3)).toBe(4);
+      expect(tree.isValidBST()).toBe(true);
+    });
+
+    test("should rebalance an empty tree", () => {
+      tree.rebalance();
+      expect(tree.isEmpty).toBe(true);
+    });
+
+    test("should sort and merge large batches", () => {
+      tree.insertBatch([10, 20, 30]);
+      const batch = Array.from({ length: 100 }, (_, i) => 99 - i);
+
+      tree.insertBatch(batch, { mergeThreshold: 50 });
+      expect(tree.size).toBe(100);
+      expect(tree.height).toBe(6);
+      expect(tree.toArray()).toEqual(Array.from({ length: 100 }, (_, i) => i));
+      expect(tree.isValidBST()).toBe(true);
+    });
+
+    test("should merge batches into degenerate trees without recursion", () => {
+      const chain = BinarySearchTree.deserialize<number>(chainText(50000));
+
+      chain.insertBatch([-2, -1], { mergeThreshold: 1 });
+      expect(chain.size).toBe(50002);
+      expect(chain.height).toBe(15);
+      expect(chain.findMin()).toBe(-2);
+      expect(chain.isValidBST()).toBe(true);
+    });
+
+    test("should insert small batches one by one", () => {
+      tree.insertBatch([1, 2, 3, 4], { mergeThreshold: 5 });
+      expect(tree.height).toBe(3);
+    });
+
+    test("should keep duplicates when merging into a multiset", () => {
+      const bag = new BinarySearchTree<number>({ multiset: true });
+      bag.insertBatch([2, 2]);
+      bag.insertBatch([3, 2, 1, 1], { mergeThreshold: 1 });
+
+      expect(bag.size).toBe(6);
+      expect(bag.count(2)).toBe(3);
+      expect(bag.toArray()).toEqual([1, 1, 2, 2, 2, 3]);
+    });
+
+    test("should reject null values in merged batches", () => {
+      expect(() =>
+        tree.insertBatch([1, null as any], { mergeThreshold: 1 }),
+      ).toThrow("Cannot insert null or undefined value");
+    });
+
+    test("should keep the given options", () => {
+      const avl = BinarySearchTree.fromSorted([3, 2, 1], {
+        compareFn: (a, b) => b - a,
+        balance: "avl",
+      });
+      avl.insertBatch([0, -1, -2]);
+
+      expect(avl.balance).toBe("avl");
+      expect(avl.toArray()).toEqual([3, 2, 1, 0, -1, -2]);
+      expect(avl.isValidBST()).toBe(true);
+    });
+  });
+
   describe("Search Operations", () => {
     beforeEach(() => {
       tree.insertBatch([50, 25, 75, 10, 30, 60, 80]);
@@ -311,6 +413,75 @@ describe("BinarySearchTree", () => {
     });
   });
 
+  describe("Traversal Iterators", () => {
+    beforeEach(() => {
+      tree.insertBatch([50, 25, 75, 10, 30, 60, 80]);
+    });
+
+    test("should iterate in order with for...of", () => {
+      const result: number[] = [];
+      for (const value of tree) {
+        result.push(value);
+      }
+      expect(result).toEqual([10, 25, 30, 50, 60, 75, 80]);
+      expect([...tree.inOrder()]).toEqual(result);
+    });
+
+    test("should iterate in reverse order", () => {
+      expect([...tree.reverseInOrder()]).toEqual([80, 75, 60, 50, 30, 25, 10]);
+    });
+
+    test("should iterate in pre-order, post-order and level-order", () => {
+      expect([...tree.preOrder()]).toEqual([50, 25, 10, 30, 75, 60, 80]);
+      expect([...tree.postOrder()]).toEqual([10, 30, 25, 60, 80, 75, 50]);
+      expect([...tree.levelOrder()]).toEqual([50, 25, 75, 10, 30, 60, 80]);
+    });
+
+    test("should handle empty tree", () => {
+      const emptyTree = new BinarySearchTree<number>();
+      expect([...emptyTree]).toEqual([]);
+      expect([...emptyTree.preOrder()]).toEqual([]);
+      expect([...emptyTree.postOrder()]).toEqual([]);
+      expect([...emptyTree.levelOrder()]).toEqual([]);
+    });
+
+    test("should support early exit", () => {
+      const result: number[] = [];
+      for (const value of tree) {
+        if (value > 30) break;
+        result.push(value);
+      }
+      expect(result).toEqual([10, 25, 30]);
+    });
+
+    test("should throw if the tree is mutated during iteration", () => {
+      expect(() => {
+        for (const value of tree) {
+          tree.remove(value);
+        }
+      }).toThrow(
+        "[BinarySearchTree.iterator] Tree was mutated during iteration.",
+      );
+
+      expect(() => {
+        for (const _ of tree.levelOrder()) {
+          tree.clear();
+        }
+      }).toThrow(
+        "[BinarySearchTree.levelOrder] Tree was mutated during iteration.",
+      );
+    });
+
+    test("should not flag ignored duplicate insertions as mutations", () => {
+      const result: number[] = [];
+      for (const value of tree.preOrder()) {
+        tree.insert(value);
+        result.push(value);
+      }
+      expect(result).toHaveLength(7);
+    });
+  });
+
   describe("Clear Operation", () => {
     test("should clear all nodes", () => {
       tree.insertBatch([50, 25, 75, 10, 30, 60, 80]);
@@ -323,6 +494,20 @@ describe("BinarySearchTree", () => {
       expect(tree.getRootValue()).toBe(null);
     });
 
+    test("should clear degenerate trees without recursion", () => {
+      const chain = BinarySearchTree.deserialize<number>(chainText(50000));
+
+      chain.clear();
+      expect(chain.isEmpty).toBe(true);
+      expect(chain.height).toBe(-1);
+
+      expect(() =>
+        BinarySearchTree.deserialize<number>(chainText(50000), {
+          balance: "avl",
+        }),
+      ).toThrow("Serialized tree is not valid");
+    });
+
     test("should handle clearing empty tree", () => {
       tree.clear();
       expect(tree.isEmpty).toBe(true);
@@ -392,6 +577,860 @@ describe("BinarySearchTree", () => {
     });
   });
 
+  describe("AVL Balancing", () => {
+    let avl: BinarySearchTree<number>;
+
+    beforeEach(() => {
+      avl = new BinarySearchTree<number>({ balance: "avl" });
+    });
+
+    test("should expose the balance mode", () => {
+      expect(tree.balance).toBe("none");
+      expect(avl.balance).toBe("avl");
+    });
+
+    test("should accept comparator and balance mode together", () => {
+      const reverseAvl = new BinarySearchTree<number>({
+        compareFn: (a, b) => b - a,
+        balance: "avl",
+      });
+      reverseAvl.insertBatch([1, 2, 3, 4, 5]);
+
+      expect(reverseAvl.inOrderTraversal()).toEqual([5, 4, 3, 2, 1]);
+      expect(reverseAvl.height).toBe(2);
+    });
+
+    test("should rebalance sorted insertions", () => {
+      avl.insertBatch([1, 2, 3, 4, 5, 6, 7]);
+
+      expect(avl.height).toBe(2);
+      expect(avl.getRootValue()).toBe(4);
+      expect(avl.isValidBST()).toBe(true);
+    });
+
+    test("should handle left-right and right-left cases", () => {
+      avl.insertBatch([30, 10, 20]);
+      expect(avl.getRootValue()).toBe(20);
+      expect(avl.height).toBe(1);
+
+      avl.clear();
+      avl.insertBatch([10, 30, 20]);
+      expect(avl.getRootValue()).toBe(20);
+      expect(avl.height).toBe(1);
+    });
+
+    test("should keep height logarithmic for large sorted input", () => {
+      const size = 10000;
+      for (let i = 0; i < size; i++) {
+        avl.insert(i);
+      }
+
+      expect(avl.size).toBe(size);
+      expect(avl.height).toBeLessThanOrEqual(
+        Math.ceil(1.44 * Math.log2(size + 2)),
+      );
+      expect(avl.isValidBST()).toBe(true);
+    });
+
+    test("should stay balanced after removals", () => {
+      avl.insertBatch(Array.from({ length: 100 }, (_, i) => i));
+
+      for (let i = 0; i < 100; i += 3) {
+        expect(avl.remove(i)).toBe(true);
+        expect(avl.isValidBST()).toBe(true);
+      }
+
+      for (let i = 99; i >= 50; i--) {
+        avl.remove(i);
+        expect(avl.isValidBST()).toBe(true);
+      }
+
+      expect(avl.toArray()).toEqual(
+        Array.from({ length: 50 }, (_, i) => i).filter((i) => i % 3 !== 0),
+      );
+    });
+
+    test("should keep height cache accurate between operations", () => {
+      tree.insert(1);
+      tree.insert(2);
+      expect(tree.height).toBe(1);
+
+      tree.insert(3);
+      expect(tree.height).toBe(2);
+
+      tree.remove(3);
+      expect(tree.height).toBe(1);
+    });
+  });
+
+  describe("Navigation Queries", () => {
+    beforeEach(() => {
+      tree.insertBatch([50, 25, 75, 10, 30, 60, 80]);
+    });
+
+    test("should find floor and ceiling", () => {
+      expect(tree.floor(50)).toBe(50);
+      expect(tree.floor(55)).toBe(50);
+      expect(tree.floor(5)).toBe(null);
+      expect(tree.ceiling(50)).toBe(50);
+      expect(tree.ceiling(55)).toBe(60);
+      expect(tree.ceiling(85)).toBe(null);
+    });
+
+    test("should find strictly lower and higher values", () => {
+      expect(tree.lower(50)).toBe(30);
+      expect(tree.lower(10)).toBe(null);
+      expect(tree.higher(50)).toBe(60);
+      expect(tree.higher(80)).toBe(null);
+      expect(tree.higher(27)).toBe(30);
+    });
+
+    test("should find successor and predecessor of stored values", () => {
+      expect(tree.successor(30)).toBe(50);
+      expect(tree.predecessor(60)).toBe(50);
+      expect(tree.successor(80)).toBe(null);
+      expect(tree.predecessor(10)).toBe(null);
+      expect(tree.successor(55)).toBe(null); // Not in tree
+    });
+
+    test("should poll first and last values", () => {
+      expect(tree.pollFirst()).toBe(10);
+      expect(tree.pollLast()).toBe(80);
+      expect(tree.size).toBe(5);
+      expect(tree.toArray()).toEqual([25, 30, 50, 60, 75]);
+      expect(tree.isValidBST()).toBe(true);
+    });
+
+    test("should return null on empty tree", () => {
+      const emptyTree = new BinarySearchTree<number>();
+      expect(emptyTree.floor(1)).toBe(null);
+      expect(emptyTree.ceiling(1)).toBe(null);
+      expect(emptyTree.pollFirst()).toBe(null);
+      expect(emptyTree.pollLast()).toBe(null);
+    });
+
+    test("should use the configured comparator", () => {
+      const reverseTree = new BinarySearchTree<number>((a, b) => b - a);
+      reverseTree.insertBatch([1, 5, 10]);
+
+      expect(reverseTree.floor(7)).toBe(10);
+      expect(reverseTree.ceiling(7)).toBe(5);
+      expect(reverseTree.pollFirst()).toBe(10);
+    });
+  });
+
+  describe("Ancestry Queries", () => {
+    beforeEach(() => {
+      //        50
+      //      /    \
+      //    30      70
+      //   /  \    /
+      //  20  40  60
+      //        \
+      //        45
+      tree.insertBatch([50, 30, 70, 20, 40, 60, 45]);
+    });
+
+    test("lowestCommonAncestor", () => {
+      expect(tree.lowestCommonAncestor(20, 45)).toBe(30);
+      expect(tree.lowestCommonAncestor(45, 60)).toBe(50);
+      expect(tree.lowestCommonAncestor(40, 45)).toBe(40);
+      expect(tree.lowestCommonAncestor(60, 60)).toBe(60);
+      expect(tree.lowestCommonAncestor(20, 25)).toBe(null);
+      expect(tree.lowestCommonAncestor(10, 99)).toBe(null);
+    });
+
+    test("pathTo", () => {
+      expect(tree.pathTo(45)).toEqual([50, 30, 40, 45]);
+      expect(tree.pathTo(50)).toEqual([50]);
+      expect(tree.pathTo(55)).toEqual([]);
+      expect(new BinarySearchTree<number>().pathTo(1)).toEqual([]);
+    });
+
+    test("depthOf", () => {
+      expect(tree.depthOf(50)).toBe(0);
+      expect(tree.depthOf(60)).toBe(2);
+      expect(tree.depthOf(45)).toBe(3);
+      expect(tree.depthOf(44)).toBe(-1);
+      expect(tree.depthOf(null as any)).toBe(-1);
+    });
+
+    test("distance", () => {
+      expect(tree.distance(20, 45)).toBe(3);
+      expect(tree.distance(45, 60)).toBe(5);
+      expect(tree.distance(50, 45)).toBe(3);
+      expect(tree.distance(70, 70)).toBe(0);
+      expect(tree.distance(20, 21)).toBe(-1);
+    });
+
+    test("should follow the custom comparator", () => {
+      const byLength = new BinarySearchTree<string>(
+        (a, b) => a.length - b.length,
+      );
+      byLength.insertBatch(["ccc", "a", "eeeee", "bb"]);
+
+      expect(byLength.pathTo("xx")).toEqual(["ccc", "a", "bb"]);
+      expect(byLength.lowestCommonAncestor("yy", "zzzzz")).toBe("ccc");
+    });
+  });
+
+  describe("Range Queries", () => {
+    beforeEach(() => {
+      tree.insertBatch([50, 25, 75, 10, 30, 60, 80]);
+    });
+
+    test("should iterate values in an inclusive range", () => {
+      expect([...tree.range(25, 60)]).toEqual([25, 30, 50, 60]);
+      expect([...tree.range(26, 59)]).toEqual([30, 50]);
+    });
+
+    test("should honor bound inclusiveness", () => {
+      expect([
+        ...tree.range(25, 60, { loInclusive: false, hiInclusive: false }),
+      ]).toEqual([30, 50]);
+      expect([...tree.range(25, 60, { hiInclusive: false })]).toEqual([
+        25, 30, 50,
+      ]);
+    });
+
+    test("should handle empty and inverted ranges", () => {
+      expect([...tree.range(31, 49)]).toEqual([]);
+      expect([...tree.range(60, 25)]).toEqual([]);
+      expect([...new BinarySearchTree<number>().range(0, 10)]).toEqual([]);
+    });
+
+    test("should be lazy and allow early exit", () => {
+      const iterator = tree.range(0, 100);
+      expect(iterator.next().value).toBe(10);
+      expect(iterator.next().value).toBe(25);
+      expect(iterator.return!().done).toBe(true);
+    });
+
+    test("should throw if the tree is mutated during iteration", () => {
+      expect(() => {
+        for (const value of tree.range(0, 100)) {
+          tree.insert(value + 1);
+        }
+      }).toThrow("[BinarySearchTree.range] Tree was mutated during iteration.");
+    });
+
+    test("should count values in range", () => {
+      expect(tree.countRange(25, 60)).toBe(4);
+      expect(tree.countRange(25, 60, { loInclusive: false })).toBe(3);
+      expect(tree.countRange(25, 60, { hiInclusive: false })).toBe(3);
+      expect(tree.countRange(0, 100)).toBe(7);
+      expect(tree.countRange(31, 49)).toBe(0);
+      expect(tree.countRange(60, 25)).toBe(0);
+    });
+
+    test("should remove values in range", () => {
+      expect(tree.removeRange(25, 60)).toBe(4);
+      expect(tree.toArray()).toEqual([10, 75, 80]);
+      expect(tree.isValidBST()).toBe(true);
+      expect(tree.removeRange(11, 74)).toBe(0);
+    });
+  });
+
+  describe("Order Statistics", () => {
+    beforeEach(() => {
+      tree.insertBatch([50, 25, 75, 10, 30, 60, 80]);
+    });
+
+    test("should select values by sorted position", () => {
+      const sorted = tree.toArray();
+      sorted.forEach((value, index) => {
+        expect(tree.select(index)).toBe(value);
+      });
+    });
+
+    test("should throw RangeError for out-of-bounds positions", () => {
+      expect(() => tree.select(-1)).toThrow(RangeError);
+      expect(() => tree.select(7)).toThrow(RangeError);
+      expect(() => tree.select(1.5)).toThrow(RangeError);
+      expect(() => tree.kthSmallest(0)).toThrow(RangeError);
+      expect(() => tree.kthLargest(8)).toThrow(RangeError);
+    });
+
+    test("should rank present and absent values", () => {
+      expect(tree.rank(10)).toBe(0);
+      expect(tree.rank(50)).toBe(3);
+      expect(tree.rank(55)).toBe(4);
+      expect(tree.rank(5)).toBe(0);
+      expect(tree.rank(100)).toBe(7);
+    });
+
+    test("should return kth smallest and largest", () => {
+      expect(tree.kthSmallest(1)).toBe(10);
+      expect(tree.kthSmallest(7)).toBe(80);
+      expect(tree.kthLargest(1)).toBe(80);
+      expect(tree.kthLargest(2)).toBe(75);
+    });
+
+    test("should return the (lower) median", () => {
+      expect(tree.median()).toBe(50);
+      tree.insert(90);
+      expect(tree.median()).toBe(50);
+      expect(new BinarySearchTree<number>().median()).toBe(null);
+    });
+
+    test("should keep subtree sizes in sync through removals", () => {
+      tree.remove(25);
+      tree.remove(50);
+      tree.insert(27);
+
+      expect(tree.toArray()).toEqual([10, 27, 30, 60, 75, 80]);
+      expect(tree.select(1)).toBe(27);
+      expect(tree.rank(60)).toBe(3);
+      expect(tree.kthLargest(6)).toBe(10);
+    });
+
+    test("should keep subtree sizes in sync through AVL rotations", () => {
+      const avl = new BinarySearchTree<number>({ balance: "avl" });
+      const values = Array.from({ length: 200 }, (_, i) => i);
+      avl.insertBatch(values);
+      for (let i = 0; i < 200; i += 4) {
+        avl.remove(i);
+      }
+
+      const remaining = values.filter((v) => v % 4 !== 0);
+      remaining.forEach((value, index) => {
+        expect(avl.select(index)).toBe(value);
+        expect(avl.rank(value)).toBe(index);
+      });
+    });
+  });
+
+  describe("Multiset Mode", () => {
+    let bag: BinarySearchTree<number>;
+
+    beforeEach(() => {
+      bag = new BinarySearchTree<number>({ multiset: true });
+      bag.insertBatch([5, 3, 5, 8, 3, 5]);
+    });
+
+    test("should count duplicates in size and count", () => {
+      expect(bag.isMultiset).toBe(true);
+      expect(tree.isMultiset).toBe(false);
+      expect(bag.size).toBe(6);
+      expect(bag.count(5)).toBe(3);
+      expect(bag.count(3)).toBe(2);
+      expect(bag.count(8)).toBe(1);
+      expect(bag.count(4)).toBe(0);
+    });
+
+    test("should expose every occurrence in traversals", () => {
+      expect(bag.toArray()).toEqual([3, 3, 5, 5, 5, 8]);
+      expect([...bag]).toEqual([3, 3, 5, 5, 5, 8]);
+      expect([...bag.reverseInOrder()]).toEqual([8, 5, 5, 5, 3, 3]);
+      expect([...bag.range(4, 8)]).toEqual([5, 5, 5, 8]);
+    });
+
+    test("should remove one occurrence at a time", () => {
+      expect(bag.removeOne(5)).toBe(true);
+      expect(bag.count(5)).toBe(2);
+      expect(bag.remove(5)).toBe(true);
+      expect(bag.count(5)).toBe(1);
+      expect(bag.size).toBe(4);
+      expect(bag.contains(5)).toBe(true);
+    });
+
+    test("should remove all occurrences", () => {
+      expect(bag.removeAll(5)).toBe(3);
+      expect(bag.removeAll(5)).toBe(0);
+      expect(bag.contains(5)).toBe(false);
+      expect(bag.size).toBe(3);
+      expect(bag.isValidBST()).toBe(true);
+    });
+
+    test("should account for multiplicity in order statistics", () => {
+      expect(bag.select(2)).toBe(5);
+      expect(bag.select(4)).toBe(5);
+      expect(bag.select(5)).toBe(8);
+      expect(bag.rank(5)).toBe(2);
+      expect(bag.rank(8)).toBe(5);
+      expect(bag.countRange(3, 5)).toBe(5);
+      expect(bag.median()).toBe(5);
+    });
+
+    test("should keep counts when removing a node with two children", () => {
+      bag.insertBatch([4, 6, 6]);
+      expect(bag.removeAll(5)).toBe(3);
+      expect(bag.count(6)).toBe(2);
+      expect(bag.toArray()).toEqual([3, 3, 4, 6, 6, 8]);
+    });
+
+    test("should count duplicates in AVL mode", () => {
+      const avlBag = new BinarySearchTree<number>({
+        balance: "avl",
+        multiset: true,
+      });
+      for (let i = 0; i < 100; i++) {
+        avlBag.insert(i % 10);
+      }
+
+      expect(avlBag.size).toBe(100);
+      expect(avlBag.count(7)).toBe(10);
+      expect(avlBag.isValidBST()).toBe(true);
+      expect(avlBag.removeAll(0)).toBe(10);
+      expect(avlBag.select(0)).toBe(1);
+    });
+
+    test("should build multisets from sorted runs", () => {
+      const sortedBag = BinarySearchTree.fromSorted([1, 1, 2, 3, 3, 3], {
+        multiset: true,
+      });
+
+      expect(sortedBag.size).toBe(6);
+      expect(sortedBag.count(3)).toBe(3);
+      expect(sortedBag.toArray()).toEqual([1, 1, 2, 3, 3, 3]);
+    });
+
+    test("should keep ignoring duplicates outside multiset mode", () => {
+      tree.insertBatch([1, 1]);
+      expect(tree.count(1)).toBe(1);
+      expect(tree.removeAll(1)).toBe(1);
+      expect(tree.isEmpty).toBe(true);
+    });
+  });
+
+  describe("Split and Join", () => {
+    test("should split around a present pivot", () => {
+      tree.insertBatch([50, 25, 75, 10, 30, 60, 80]);
+      const [low, high] = tree.split(50);
+
+      expect(low.toArray()).toEqual([10, 25, 30]);
+      expect(high.toArray()).toEqual([50, 60, 75, 80]);
+      expect(low.size).toBe(3);
+      expect(high.size).toBe(4);
+      expect(low.isValidBST()).toBe(true);
+      expect(high.isValidBST()).toBe(true);
+      expect(tree.isEmpty).toBe(true);
+      expect(tree.size).toBe(0);
+    });
+
+    test("should split around an absent pivot and at the extremes", () => {
+      tree.insertBatch([1, 2, 3, 4, 5]);
+      const [low, high] = tree.split(3.5);
+      expect(low.toArray()).toEqual([1, 2, 3]);
+      expect(high.toArray()).toEqual([4, 5]);
+
+      const [none, all] = high.split(0);
+      expect(none.isEmpty).toBe(true);
+      expect(all.toArray()).toEqual([4, 5]);
+    });
+
+    test("should keep AVL balance and options when splitting", () => {
+      const avl = new BinarySearchTree<number>({ balance: "avl" });
+      avl.insertBatch(Array.from({ length: 1000 }, (_, i) => i));
+
+      const [low, high] = avl.split(377);
+      expect(low.balance).toBe("avl");
+      expect(low.size).toBe(377);
+      expect(high.size).toBe(623);
+      expect(low.isValidBST()).toBe(true);
+      expect(high.isValidBST()).toBe(true);
+      expect(low.select(376)).toBe(376);
+      expect(high.select(0)).toBe(377);
+    });
+
+    test("should split degenerate trees without recursion", () => {
+      const chain = BinarySearchTree.deserialize<number>(chainText(50000));
+
+      const [low, high] = chain.split(30000);
+      expect(low.size).toBe(30000);
+      expect(high.size).toBe(20000);
+      expect(low.findMax()).toBe(29999);
+      expect(high.findMin()).toBe(30000);
+      expect(low.isValidBST()).toBe(true);
+      expect(high.isValidBST()).toBe(true);
+    });
+
+    test("should join non-overlapping trees", () => {
+      const low = BinarySearchTree.fromSorted([1, 2, 3], { balance: "avl" });
+      const high = BinarySearchTree.fromSorted(
+        Array.from({ length: 100 }, (_, i) => i + 10),
+        { balance: "avl" },
+      );
+
+      const joined = BinarySearchTree.join(low, high);
+      expect(joined.size).toBe(103);
+      expect(joined.toArray().slice(0, 5)).toEqual([1, 2, 3, 10, 11]);
+      expect(joined.isValidBST()).toBe(true);
+      expect(joined.height).toBeLessThanOrEqual(8);
+      expect(low.isEmpty).toBe(true);
+      expect(high.isEmpty).toBe(true);
+    });
+
+    test("should join with empty trees", () => {
+      const only = BinarySearchTree.fromSorted([1, 2]);
+      expect(BinarySearchTree.join(only, tree).toArray()).toEqual([1, 2]);
+
+      const other = BinarySearchTree.fromSorted([3, 4]);
+      expect(
+        BinarySearchTree.join(new BinarySearchTree<number>(), other).toArray(),
+      ).toEqual([3, 4]);
+    });
+
+    test("should reject overlapping trees", () => {
+      const a = BinarySearchTree.fromSorted([1, 5]);
+      const b = BinarySearchTree.fromSorted([3, 7]);
+
+      expect(() => BinarySearchTree.join(a, b)).toThrow(
+        "[BinarySearchTree.join] Left tree values must all be smaller than right tree values.",
+      );
+      expect(a.size).toBe(2);
+    });
+
+    test("should reject trees with different multiset modes", () => {
+      const set = BinarySearchTree.fromSorted([1, 2]);
+      const bag = BinarySearchTree.fromSorted([3, 3], { multiset: true });
+
+      expect(() => BinarySearchTree.join(set, bag)).toThrow(
+        "[BinarySearchTree.join] Both trees must have the same multiset mode.",
+      );
+      expect(() => BinarySearchTree.join(bag, set)).toThrow(
+        "same multiset mode",
+      );
+      expect(set.size).toBe(2);
+      expect(bag.count(3)).toBe(2);
+    });
+
+    test("should round-trip split and join on a multiset", () => {
+      const bag = new BinarySearchTree<number>({ multiset: true });
+      bag.insertBatch([3, 1, 2, 2, 3, 3]);
+
+      const [low, high] = bag.split(2);
+      expect(low.toArray()).toEqual([1]);
+      expect(high.toArray()).toEqual([2, 2, 3, 3, 3]);
+
+      const joined = BinarySearchTree.join(low, high);
+      expect(joined.size).toBe(6);
+      expect(joined.count(3)).toBe(3);
+    });
+  });
+
+  describe("Merging Trees", () => {
+    test("should merge two trees into a balanced one", () => {
+      const a = BinarySearchTree.fromSorted([1, 3, 5, 7]);
+      const b = new BinarySearchTree<number>();
+      b.insertBatch([8, 6, 4, 2, 0]);
+
+      const merged = BinarySearchTree.merge(a, b);
+      expect(merged.toArray()).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8]);
+      expect(merged.height).toBe(3);
+      expect(merged.isValidBST()).toBe(true);
+      expect(a.size).toBe(4);
+      expect(b.size).toBe(5);
+    });
+
+    test("should collapse duplicates unless multiset", () => {
+      const a = BinarySearchTree.fromSorted([1, 2, 3]);
+      const b = BinarySearchTree.fromSorted([2, 3, 4]);
+      expect(BinarySearchTree.merge(a, b).toArray()).toEqual([1, 2, 3, 4]);
+
+      const bagA = BinarySearchTree.fromSorted([1, 2, 2], { multiset: true });
+      const bagB = BinarySearchTree.fromSorted([2, 3], { multiset: true });
+      const merged = BinarySearchTree.merge(bagA, bagB);
+      expect(merged.count(2)).toBe(3);
+      expect(merged.size).toBe(5);
+    });
+
+    test("should respect the comparator of the first tree", () => {
+      const reverse = (x: number, y: number) => y - x;
+      const a = BinarySearchTree.fromSorted([9, 5, 1], reverse);
+      const b = BinarySearchTree.fromSorted([8, 4], reverse);
+
+      const merged = BinarySearchTree.merge(a, b);
+      expect(merged.toArray()).toEqual([9, 8, 5, 4, 1]);
+      merged.insert(6);
+      expect(merged.toArray()).toEqual([9, 8, 6, 5, 4, 1]);
+    });
+
+    test("should merge another tree in place", () => {
+      tree.insertBatch([5, 1, 9]);
+      const other = BinarySearchTree.fromSorted([2, 5, 8]);
+
+      tree.mergeFrom(other);
+      expect(tree.toArray()).toEqual([1, 2, 5, 8, 9]);
+      expect(tree.size).toBe(5);
+      expect(tree.isValidBST()).toBe(true);
+      expect(other.toArray()).toEqual([2, 5, 8]);
+
+      tree.mergeFrom(new BinarySearchTree<number>());
+      expect(tree.size).toBe(5);
+    });
+
+    test("should merge degenerate trees without recursion", () => {
+      const chain = BinarySearchTree.deserialize<number>(chainText(50000));
+      const other = BinarySearchTree.fromSorted([-1, 50000]);
+
+      const merged = BinarySearchTree.merge(chain, other);
+      expect(merged.size).toBe(50002);
+      expect(merged.height).toBe(15);
+
+      chain.mergeFrom(other);
+      expect(chain.size).toBe(50002);
+      expect(chain.height).toBe(15);
+      expect(chain.findMin()).toBe(-1);
+      expect(chain.isValidBST()).toBe(true);
+    });
+
+    test("should leave the receiver unchanged when a merge fails", () => {
+      const a = BinarySearchTree.fromSorted([1, 2, 3]);
+      const b = BinarySearchTree.fromSorted([6, 5, 4], (x, y) => y - x);
+
+      expect(() => a.mergeFrom(b)).toThrow(
+        "[BinarySearchTree.mergeFrom] Values must be ascending (index 4).",
+      );
+      expect(a.size).toBe(3);
+      expect(a.toArray()).toEqual([1, 2, 3]);
+      expect(a.isValidBST()).toBe(true);
+
+      a.mergeFrom(BinarySearchTree.fromSorted([4, 5]));
+      expect(a.toArray()).toEqual([1, 2, 3, 4, 5]);
+    });
+  });
+
+  describe("Subtree Aggregates", () => {
+    const sum = {
+      identity: 0,
+      lift: (x: number) => x,
+      combine: (a: number, b: number) => a + b,
+    };
+    const concat = {
+      identity: "",
+      lift: (x: number) => String(x),
+      combine: (a: string, b: string) => a + b,
+    };
+
+    test("should aggregate over key ranges", () => {
+      const sums = new BinarySearchTree<number, number>({ aggregate: sum });
+      sums.insertBatch([5, 3, 8, 1, 4, 7, 9]);
+
+      expect(sums.aggregate()).toBe(37);
+      expect(sums.aggregate(3, 7)).toBe(19);
+      expect(sums.aggregate(3, 7, { loInclusive: false })).toBe(16);
+      expect(sums.aggregate(3, 7, { hiInclusive: false })).toBe(12);
+      expect(sums.aggregate(undefined, 4)).toBe(8);
+      expect(sums.aggregate(6)).toBe(24);
+      expect(sums.aggregate(10, 20)).toBe(0);
+      expect(sums.aggregate(7, 3)).toBe(0);
+    });
+
+    test("should combine values in key order", () => {
+      const tree = new BinarySearchTree<number, string>({
+        balance: "avl",
+        aggregate: concat,
+      });
+      tree.insertBatch([5, 2, 8, 1, 3, 7, 9, 4, 6]);
+
+      expect(tree.aggregate()).toBe("123456789");
+      expect(tree.aggregate(3, 6)).toBe("3456");
+      expect(
+        tree.aggregate(2, 8, { loInclusive: false, hiInclusive: false }),
+      ).toBe("34567");
+    });
+
+    test("should stay correct through rotations and removals", () => {
+      const tree = new BinarySearchTree<number, number>({
+        balance: "avl",
+        aggregate: sum,
+      });
+      const values = new Set<number>();
+      for (let i = 0; i < 300; i++) {
+        const value = (i * 37) % 211;
+        tree.insert(value);
+        values.add(value);
+        if (i % 3 === 0) {
+          tree.remove((i * 11) % 211);
+          values.delete((i * 11) % 211);
+        }
+      }
+
+      for (let lo = 0; lo < 211; lo += 23) {
+        const expected = [...values]
+          .filter((v) => v >= lo && v <= lo + 40)
+          .reduce((a, b) => a + b, 0);
+        expect(tree.aggregate(lo, lo + 40)).toBe(expected);
+      }
+    });
+
+    test("should count multiset occurrences", () => {
+      const bag = new BinarySearchTree<number, number>({
+        multiset: true,
+        aggregate: sum,
+      });
+      bag.insertBatch([2, 2, 2, 5, 5]);
+      expect(bag.aggregate()).toBe(16);
+
+      bag.remove(2);
+      expect(bag.aggregate(0, 3)).toBe(4);
+    });
+
+    test("should carry the aggregate through split and merge", () => {
+      const tree = BinarySearchTree.fromSorted([1, 2, 3, 4, 5, 6], {
+        aggregate: sum,
+      });
+      const [low, high] = tree.split(4);
+      expect(low.aggregate()).toBe(6);
+      expect(high.aggregate()).toBe(15);
+
+      expect(BinarySearchTree.merge(low, high).aggregate(2, 5)).toBe(14);
+      expect(BinarySearchTree.join(low, high).aggregate()).toBe(21);
+    });
+
+    test("should filter values by pruning on subtree aggregates", () => {
+      const maxes = new BinarySearchTree<number, number>({
+        multiset: true,
+        aggregate: { identity: -Infinity, lift: (x) => x, combine: Math.max },
+      });
+      maxes.insertBatch([7, 1, 12, 5, 30, 12, 9]);
+
+      const tested: number[] = [];
+      const found = maxes.filterByAggregate((max) => {
+        tested.push(max);
+        return max >= 10;
+      });
+      expect([...found]).toEqual([12, 12, 30]);
+      expect(tested).not.toContain(1); // the subtree {1, 5} was skipped whole
+
+      expect([...maxes.filterByAggregate(() => false)]).toEqual([]);
+      expect([...maxes.filterByAggregate(() => true)]).toEqual(maxes.toArray());
+    });
+
+    test("should throw without an aggregate", () => {
+      expect(() => tree.aggregate()).toThrow(
+        "[BinarySearchTree.aggregate] Tree was created without an aggregate.",
+      );
+      expect(() => tree.filterByAggregate(() => true)).toThrow(
+        "[BinarySearchTree.filterByAggregate] Tree was created without an aggregate.",
+      );
+    });
+  });
+
+  describe("Serialization", () => {
+    test("toJSON should preserve the shape", () => {
+      tree.insertBatch([2, 1, 3]);
+      expect(JSON.parse(JSON.stringify(tree))).toEqual({
+        value: 2,
+        left: { value: 1, left: null, right: null },
+        right: { value: 3, left: null, right: null },
+      });
+      expect(new BinarySearchTree<number>().toJSON()).toBe(null);
+    });
+
+    test("JSON round trip should keep shape and options", () => {
+      tree.insertBatch([1, 2, 3, 4, 5]); // degenerate chain
+      const restored = BinarySearchTree.fromJSON<number>(tree.toJSON());
+
+      expect(restored.toArray()).toEqual([1, 2, 3, 4, 5]);
+      expect(restored.height).toBe(4);
+      expect(restored.size).toBe(5);
+      restored.insert(0);
+      expect(restored.findMin()).toBe(0);
+    });
+
+    test("string round trip should keep multiset counts", () => {
+      const bag = BinarySearchTree.fromSorted([1, 2, 2, 2, 3], {
+        multiset: true,
+      });
+      const text = bag.serialize();
+      expect(text).toBe("2:3,1,#,#,3,#,#");
+
+      const restored = BinarySearchTree.deserialize<number>(text, {
+        multiset: true,
+      });
+      expect(restored.count(2)).toBe(3);
+      expect(restored.size).toBe(5);
+      expect(restored.toJSON()).toEqual(bag.toJSON());
+    });
+
+    test("should accept a comparator and a reviver", () => {
+      const byTime = (a: Date, b: Date) => a.getTime() - b.getTime();
+      const dates = new BinarySearchTree<Date>(byTime);
+      dates.insertBatch([new Date(20), new Date(10), new Date(30)]);
+
+      const restored = BinarySearchTree.deserialize(
+        dates.serialize(),
+        byTime,
+        (value) => new Date(value as string),
+      );
+      expect(restored.findMin()!.getTime()).toBe(10);
+      expect(restored.contains(new Date(30))).toBe(true);
+    });
+
+    test("should reject trees that do not fit the comparator or options", () => {
+      tree.insertBatch([2, 1, 3]);
+      expect(() =>
+        BinarySearchTree.fromJSON<number>(tree.toJSON(), (a, b) => b - a),
+      ).toThrow(
+        "[BinarySearchTree.fromJSON] Serialized tree is not valid for this comparator and balance mode.",
+      );
+
+      const chain = BinarySearchTree.fromSorted([1]);
+      chain.insertBatch([2, 3]);
+      expect(() =>
+        BinarySearchTree.deserialize<number>(chain.serialize(), {
+          balance: "avl",
+        }),
+      ).toThrow("Serialized tree is not valid");
+
+      expect(() => BinarySearchTree.deserialize<number>("1:2,#,#")).toThrow(
+        "[BinarySearchTree.deserialize] Repeated values require a multiset tree.",
+      );
+      expect(() => BinarySearchTree.deserialize<number>("null,#,#")).toThrow(
+        "Values cannot be null or undefined",
+      );
+      expect(() => BinarySearchTree.deserialize<number>("1,#")).toThrow(
+        "[BinarySearchTree.deserialize] Malformed serialized tree.",
+      );
+    });
+
+    test("should validate degenerate chains without recursion", () => {
+      const chain = BinarySearchTree.deserialize<number>(chainText(50000));
+      expect(chain.size).toBe(50000);
+      expect(chain.isValidBST()).toBe(true);
+
+      const restored = BinarySearchTree.fromJSON<number>(chain.toJSON());
+      expect(restored.size).toBe(50000);
+    });
+  });
+
+  describe("Rendering", () => {
+    test("toString should draw the tree sideways", () => {
+      tree.insertBatch([4, 2, 6, 1, 3, 7]);
+      expect(tree.toString()).toBe(
+        ["    /-- 7", "/-- 6", "4", "|   /-- 3", "\\-- 2", "    \\-- 1"].join(
+          "\n",
+        ),
+      );
+    });
+
+    test("toString should draw the tree top-down with counts", () => {
+      const bag = new BinarySearchTree<number>({ multiset: true });
+      bag.insertBatch([2, 1, 3, 3]);
+      expect(bag.toString({ layout: "topDown" })).toBe(
+        [" 2___", "/    \\", "1 3 (x2)"].join("\n"),
+      );
+    });
+
+    test("toDot should highlight the search path of a value", () => {
+      tree.insertBatch([2, 1, 3]);
+      expect(tree.toDot({ highlight: 3, label: (v) => `#${v}` })).toBe(
+        [
+          'digraph "tree" {',
+          '  n0 [label="#2", color="red", penwidth=2];',
+          "  n0 -> n1;",
+          '  n0 -> n2 [color="red", penwidth=2];',
+          '  n1 [label="#1"];',
+          '  n2 [label="#3", color="red", penwidth=2];',
+          "}",
+        ].join("\n"),
+      );
+      expect(tree.toDot({ highlight: 4 })).not.toContain("red");
+    });
+  });
+
   describe("Custom Comparator Tests", () => {
     test("should work with string comparator", () => {
       const stringTree = new BinarySearchTree<string>();
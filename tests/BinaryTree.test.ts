@@ -0,0 +1,799 @@
+import { describe, test, expect, beforeEach } from "bun:test";
+import { BinaryTree } from "../src/BinaryTree";
+import { RangeError } from "../src/Errors";
+
+describe("BinaryTree", () => {
+  let tree: BinaryTree<string>;
+
+  beforeEach(() => {
+    //      *
+    //    /   \
+    //   +     c
+    //  / \
+    // a   b
+    tree = new BinaryTree("*");
+    tree.insertLeft([], "+");
+    tree.insertRight([], "c");
+    tree.insertLeft(["left"], "a");
+    tree.insertRight(["left"], "b");
+  });
+
+  describe("Constructor and Basic Properties", () => {
+    test("should create empty tree by default", () => {
+      const empty = new BinaryTree<number>();
+      expect(empty.isEmpty).toBe(true);
+      expect(empty.size).toBe(0);
+      expect(empty.height).toBe(-1);
+      expect(empty.getRootData()).toBe(null);
+    });
+
+    test("should build from subtrees", () => {
+      const left = new BinaryTree("a");
+      const right = new BinaryTree("b");
+      const sum = new BinaryTree("+", left, right);
+
+      expect(sum.size).toBe(3);
+      expect(sum.height).toBe(1);
+      expect(sum.getData(["right"])).toBe("b");
+    });
+
+    test("should link subtrees without copying them", () => {
+      let chain = new BinaryTree(0);
+      for (let i = 1; i < 50000; i++) {
+        chain = new BinaryTree(i, chain);
+      }
+
+      expect(chain.size).toBe(50000);
+      expect(chain.getData(["left", "left"])).toBe(49997);
+    });
+  });
+
+  describe("Navigation", () => {
+    test("should read data and check positions", () => {
+      expect(tree.getData([])).toBe("*");
+      expect(tree.getData(["left", "right"])).toBe("b");
+      expect(tree.getData(["right", "left"])).toBe(null);
+      expect(tree.has(["left", "left"])).toBe(true);
+      expect(tree.has(["left", "left", "left"])).toBe(false);
+    });
+
+    test("should replace data", () => {
+      tree.setData(["left"], "-");
+      expect(tree.getData(["left"])).toBe("-");
+      expect(() => tree.setData(["right", "right"], "x")).toThrow(
+        "[BinaryTree.setData] No node at position [right, right].",
+      );
+    });
+  });
+
+  describe("Insertion", () => {
+    test("should push existing children down", () => {
+      tree.insertLeft([], "neg");
+
+      expect(tree.size).toBe(6);
+      expect(tree.getData(["left"])).toBe("neg");
+      expect(tree.getData(["left", "left"])).toBe("+");
+      expect(tree.getData(["left", "left", "right"])).toBe("b");
+      expect(tree.height).toBe(3);
+
+      tree.insertRight([], "sqrt");
+      expect(tree.getData(["right", "right"])).toBe("c");
+      expect(tree.size).toBe(7);
+    });
+
+    test("should require an existing parent", () => {
+      expect(() => tree.insertLeft(["right", "left"], "x")).toThrow(
+        "[BinaryTree.insertLeft] No node at position [right, left].",
+      );
+      expect(() => new BinaryTree<string>().insertRight([], "x")).toThrow(
+        "[BinaryTree.insertRight] No node at position [].",
+      );
+    });
+
+    test("should reject invalid sides", () => {
+      expect(() => tree.insertLeft(["up" as any], "x")).toThrow(
+        'Invalid side "up" in position',
+      );
+    });
+  });
+
+  describe("Subtree Editing", () => {
+    test("detach should return the subtree and update the size", () => {
+      const detached = tree.detach(["left"]);
+
+      expect(detached.size).toBe(3);
+      expect(detached.getRootData()).toBe("+");
+      expect(detached.getData(["left"])).toBe("a");
+      expect(tree.size).toBe(2);
+      expect(tree.has(["left"])).toBe(false);
+
+      detached.setData([], "-");
+      expect(tree.has(["left"])).toBe(false);
+    });
+
+    test("detach of an empty slot should return an empty tree", () => {
+      const detached = tree.detach(["right", "left"]);
+      expect(detached.isEmpty).toBe(true);
+      expect(tree.size).toBe(5);
+    });
+
+    test("detach of the root should empty the tree", () => {
+      const detached = tree.detach([]);
+      expect(detached.size).toBe(5);
+      expect(tree.isEmpty).toBe(true);
+      expect(tree.size).toBe(0);
+    });
+
+    test("replaceSubtree should copy the replacement", () => {
+      const replacement = new BinaryTree(
+        "-",
+        new BinaryTree("x"),
+        new BinaryTree("y"),
+      );
+      const previous = tree.replaceSubtree(["right"], replacement);
+
+      expect(previous.getRootData()).toBe("c");
+      expect(previous.size).toBe(1);
+      expect(tree.size).toBe(7);
+      expect(tree.getData(["right", "right"])).toBe("y");
+
+      replacement.setData([], "/");
+      expect(tree.getData(["right"])).toBe("-");
+    });
+
+    test("replaceSubtree should fill empty slots and remove with null", () => {
+      tree.replaceSubtree(["right", "left"], new BinaryTree("d"));
+      expect(tree.getData(["right", "left"])).toBe("d");
+      expect(tree.size).toBe(6);
+
+      tree.replaceSubtree(["left"], null);
+      expect(tree.size).toBe(3);
+      expect(tree.height).toBe(2);
+    });
+
+    test("replaceSubtree should require the parent to exist", () => {
+      expect(() =>
+        tree.replaceSubtree(["right", "left", "left"], new BinaryTree("d")),
+      ).toThrow(
+        "[BinaryTree.replaceSubtree] No node at position [right, left].",
+      );
+    });
+  });
+
+  describe("Node Removal", () => {
+    test("should remove leaves", () => {
+      expect(tree.removeNode(["left", "left"])).toBe("a");
+      expect(tree.size).toBe(4);
+      expect(tree.has(["left", "left"])).toBe(false);
+    });
+
+    test("should promote an only child", () => {
+      tree.removeNode(["left", "left"]);
+      expect(tree.removeNode(["left"])).toBe("+");
+
+      expect(tree.getData(["left"])).toBe("b");
+      expect(tree.size).toBe(3);
+      expect(tree.height).toBe(1);
+    });
+
+    test("should promote the child of a single-child root", () => {
+      const chain = new BinaryTree(1);
+      chain.insertRight([], 2);
+      chain.removeNode([]);
+
+      expect(chain.getRootData()).toBe(2);
+      expect(chain.size).toBe(1);
+    });
+
+    test("should refuse nodes with two children", () => {
+      expect(() => tree.removeNode(["left"])).toThrow(
+        "[BinaryTree.removeNode] Cannot remove a node with two children.",
+      );
+      expect(() => tree.removeNode(["right", "right"])).toThrow(
+        "[BinaryTree.removeNode] No node at position [right, right].",
+      );
+      expect(tree.size).toBe(5);
+    });
+  });
+
+  describe("Traversal", () => {
+    //        1
+    //      /   \
+    //     2     3
+    //    / \     \
+    //   4   5     6
+    const build = () => {
+      const tree = new BinaryTree(1);
+      tree.insertLeft([], 2);
+      tree.insertRight([], 3);
+      tree.insertLeft(["left"], 4);
+      tree.insertRight(["left"], 5);
+      tree.insertRight(["right"], 6);
+      return tree;
+    };
+
+    test("should iterate depth-first in every order", () => {
+      const tree = build();
+      expect([...tree.preOrder()]).toEqual([1, 2, 4, 5, 3, 6]);
+      expect([...tree.inOrder()]).toEqual([4, 2, 5, 1, 3, 6]);
+      expect([...tree.postOrder()]).toEqual([4, 5, 2, 6, 3, 1]);
+    });
+
+    test("should iterate in level order", () => {
+      expect([...build().levelOrder()]).toEqual([1, 2, 3, 4, 5, 6]);
+    });
+
+    test("should iterate in-order by default and convert to arrays", () => {
+      const tree = build();
+      expect([...tree]).toEqual([4, 2, 5, 1, 3, 6]);
+      expect(tree.toArray()).toEqual([4, 2, 5, 1, 3, 6]);
+      expect(tree.toArray("postOrder")).toEqual([4, 5, 2, 6, 3, 1]);
+      expect(new BinaryTree<number>().toArray("levelOrder")).toEqual([]);
+    });
+
+    test("should iterate lazily", () => {
+      const iterator = build().preOrder();
+      expect(iterator.next().value).toBe(1);
+      expect(iterator.next().value).toBe(2);
+    });
+
+    test("should detect edits during iteration", () => {
+      const tree = build();
+      expect(() => {
+        for (const value of tree.inOrder()) {
+          if (value === 2) tree.insertLeft([], 0);
+        }
+      }).toThrow("[BinaryTree.inOrder] Tree was mutated during iteration.");
+
+      expect(() => {
+        for (const _ of tree) tree.setData([], 7);
+      }).not.toThrow();
+    });
+
+    test("should handle degenerate trees without recursion", () => {
+      const chain = new BinaryTree(0);
+      const position: ("left" | "right")[] = [];
+      for (let i = 1; i < 10000; i++) {
+        chain.insertRight(position, i);
+        position.push("right");
+      }
+
+      expect(chain.toArray("postOrder").length).toBe(10000);
+      expect(chain.fold((_, l: number, r: number) => 1 + l + r, 0)).toBe(10000);
+    });
+  });
+
+  describe("Functional Helpers", () => {
+    const tree = new BinaryTree(
+      "*",
+      new BinaryTree("+", new BinaryTree("1"), new BinaryTree("2")),
+      new BinaryTree("3"),
+    );
+
+    test("should map data preserving the shape", () => {
+      const lengths = tree.map((data) => data.length + 10);
+      expect(lengths.size).toBe(5);
+      expect(lengths.getData(["left", "right"])).toBe(11);
+      expect(lengths.toArray("preOrder")).toEqual([11, 11, 11, 11, 11]);
+      expect(tree.getData(["left"])).toBe("+");
+    });
+
+    test("should fold following the structure", () => {
+      const infix = tree.fold<string>(
+        (data, left, right) => (left ? `(${left} ${data} ${right})` : data),
+        "",
+      );
+      expect(infix).toBe("((1 + 2) * 3)");
+
+      const height = tree.fold<number>((_, l, r) => 1 + Math.max(l, r), -1);
+      expect(height).toBe(tree.height);
+      expect(new BinaryTree<string>().fold(() => 1, 0)).toBe(0);
+    });
+
+    test("should reduce in the requested order", () => {
+      expect(tree.reduce((acc, data) => acc + data, "")).toBe("1+2*3");
+      expect(tree.reduce((acc, data) => acc + data, "", "postOrder")).toBe(
+        "12+3*",
+      );
+    });
+
+    test("should test data with some and every", () => {
+      const isDigit = (data: string) => /\d/.test(data);
+      expect(tree.some(isDigit)).toBe(true);
+      expect(tree.every(isDigit)).toBe(false);
+      expect(tree.every((data) => data.length === 1)).toBe(true);
+      expect(new BinaryTree<string>().every(isDigit)).toBe(true);
+    });
+
+    test("should find the first matching data", () => {
+      const isDigit = (data: string) => /\d/.test(data);
+      expect(tree.find(isDigit)).toBe("1");
+      expect(tree.find(isDigit, "levelOrder")).toBe("3");
+      expect(tree.find((data) => data === "-")).toBe(null);
+    });
+  });
+
+  describe("Reconstruction", () => {
+    //        1
+    //      /   \
+    //     2     3
+    //    / \     \
+    //   4   5     6
+    //      /
+    //     7
+    const level = [1, 2, 3, 4, 5, null, 6, null, null, 7];
+    const pre = [1, 2, 4, 5, 7, 3, 6];
+    const ino = [4, 2, 7, 5, 1, 3, 6];
+    const post = [4, 7, 5, 2, 6, 3, 1];
+
+    test("should round trip through level-order arrays", () => {
+      const tree = BinaryTree.fromLevelOrder(level);
+      expect(tree.size).toBe(7);
+      expect(tree.getData(["left", "right", "left"])).toBe(7);
+      expect(tree.toArray("preOrder")).toEqual(pre);
+      expect(tree.toLevelOrderArray()).toEqual(level);
+    });
+
+    test("should handle level-order edge cases", () => {
+      expect(BinaryTree.fromLevelOrder([]).isEmpty).toBe(true);
+      expect(BinaryTree.fromLevelOrder([null]).isEmpty).toBe(true);
+      expect(
+        BinaryTree.fromLevelOrder([1, null, 2]).toLevelOrderArray(),
+      ).toEqual([1, null, 2]);
+      expect(new BinaryTree<number>().toLevelOrderArray()).toEqual([]);
+    });
+
+    test("should reject values left over in level-order arrays", () => {
+      expect(() => BinaryTree.fromLevelOrder([1, null, null, 2])).toThrow(
+        RangeError,
+      );
+      expect(() => BinaryTree.fromLevelOrder([null, 1])).toThrow(
+        "[BinaryTree.fromLevelOrder] Value at index 1 has no parent slot.",
+      );
+      expect(BinaryTree.fromLevelOrder([1, 2, null, null, null]).size).toBe(2);
+    });
+
+    test("should rebuild from preorder and inorder", () => {
+      const tree = BinaryTree.fromPreorderInorder(pre, ino);
+      expect(tree.size).toBe(7);
+      expect(tree.toLevelOrderArray()).toEqual(level);
+      expect(BinaryTree.fromPreorderInorder([], []).isEmpty).toBe(true);
+    });
+
+    test("should rebuild from postorder and inorder", () => {
+      const tree = BinaryTree.fromPostorderInorder(post, ino);
+      expect(tree.toLevelOrderArray()).toEqual(level);
+      expect(tree.toArray("postOrder")).toEqual(post);
+    });
+
+    test("should reject inconsistent traversals", () => {
+      expect(() => BinaryTree.fromPreorderInorder([1, 2], [1])).toThrow(
+        "[BinaryTree.fromPreorderInorder] Traversals must have the same length.",
+      );
+      expect(() => BinaryTree.fromPreorderInorder([1, 1], [1, 1])).toThrow(
+        "[BinaryTree.fromPreorderInorder] Values must be unique.",
+      );
+      expect(() =>
+        BinaryTree.fromPostorderInorder([1, 2, 3], [1, 2, 4]),
+      ).toThrow(
+        "[BinaryTree.fromPostorderInorder] Traversals do not describe the same tree.",
+      );
+      expect(() =>
+        BinaryTree.fromPreorderInorder([2, 1, 3], [3, 2, 1]),
+      ).toThrow("Traversals do not describe the same tree");
+    });
+
+    test("should return editable trees", () => {
+      const tree = BinaryTree.fromPreorderInorder(pre, ino);
+      tree.detach(["left"]);
+      expect(tree.size).toBe(3);
+    });
+  });
+
+  describe("Structural Metrics", () => {
+    const perfect = BinaryTree.fromLevelOrder([1, 2, 3, 4, 5, 6, 7]);
+    const complete = BinaryTree.fromLevelOrder([1, 2, 3, 4, 5, 6]);
+    const gappy = BinaryTree.fromLevelOrder([1, 2, 3, 4, null, 6]);
+    const chain = BinaryTree.fromLevelOrder([1, 2, null, 3]);
+    const empty = new BinaryTree<number>();
+
+    test("should detect balanced trees", () => {
+      expect(perfect.isBalanced()).toBe(true);
+      expect(gappy.isBalanced()).toBe(true);
+      expect(chain.isBalanced()).toBe(false);
+      expect(empty.isBalanced()).toBe(true);
+    });
+
+    test("should detect complete trees", () => {
+      expect(perfect.isComplete()).toBe(true);
+      expect(complete.isComplete()).toBe(true);
+      expect(gappy.isComplete()).toBe(false);
+      expect(chain.isComplete()).toBe(false);
+      expect(empty.isComplete()).toBe(true);
+    });
+
+    test("should detect full and perfect trees", () => {
+      expect(perfect.isFull()).toBe(true);
+      expect(perfect.isPerfect()).toBe(true);
+      expect(complete.isFull()).toBe(false);
+      expect(complete.isPerfect()).toBe(false);
+
+      const full = BinaryTree.fromLevelOrder([1, 2, 3, null, null, 4, 5]);
+      expect(full.isFull()).toBe(true);
+      expect(full.isPerfect()).toBe(false);
+      expect(empty.isPerfect()).toBe(true);
+    });
+
+    test("should compute the diameter", () => {
+      expect(perfect.diameter()).toBe(4);
+      expect(chain.diameter()).toBe(2);
+      expect(new BinaryTree(1).diameter()).toBe(0);
+      expect(empty.diameter()).toBe(0);
+
+      // Longest path does not go through the root
+      const lopsided = BinaryTree.fromLevelOrder([
+        1,
+        2,
+        null,
+        3,
+        4,
+        5,
+        null,
+        null,
+        6,
+        7,
+        null,
+        null,
+        8,
+      ]);
+      expect(lopsided.diameter()).toBe(6);
+    });
+
+    test("should compute the width and leaf count", () => {
+      expect(perfect.width()).toBe(4);
+      expect(gappy.width()).toBe(2);
+      expect(chain.width()).toBe(1);
+      expect(empty.width()).toBe(0);
+
+      expect(perfect.leafCount()).toBe(4);
+      expect(gappy.leafCount()).toBe(2);
+      expect(empty.leafCount()).toBe(0);
+    });
+
+    test("should detect symmetric trees", () => {
+      expect(
+        BinaryTree.fromLevelOrder([1, 2, 2, 3, 4, 4, 3]).isSymmetric(),
+      ).toBe(true);
+      expect(
+        BinaryTree.fromLevelOrder([1, 2, 2, null, 3, null, 3]).isSymmetric(),
+      ).toBe(false);
+      expect(perfect.isSymmetric()).toBe(false);
+      expect(perfect.isSymmetric(() => true)).toBe(true);
+      expect(empty.isSymmetric()).toBe(true);
+    });
+
+    test("should find subtrees", () => {
+      expect(BinaryTree.fromLevelOrder([2, 4, 5]).isSubtreeOf(perfect)).toBe(
+        true,
+      );
+      expect(BinaryTree.fromLevelOrder([2, 4]).isSubtreeOf(perfect)).toBe(
+        false,
+      );
+      expect(BinaryTree.fromLevelOrder([3, 6]).isSubtreeOf(complete)).toBe(
+        true,
+      );
+      expect(perfect.isSubtreeOf(perfect)).toBe(true);
+      expect(empty.isSubtreeOf(perfect)).toBe(true);
+      expect(perfect.isSubtreeOf(empty)).toBe(false);
+    });
+  });
+
+  describe("Transformations", () => {
+    const build = () => BinaryTree.fromLevelOrder([1, 2, 3, 4, 5, null, 6]);
+
+    test("should mirror in place", () => {
+      const tree = build();
+      tree.mirror();
+      expect(tree.toLevelOrderArray()).toEqual([1, 3, 2, 6, null, 5, 4]);
+      expect(tree.size).toBe(6);
+
+      tree.mirror();
+      expect(tree.equals(build())).toBe(true);
+    });
+
+    test("should mirror into a copy, leaving the tree untouched", () => {
+      const tree = build();
+      const mirrored = tree.toMirrored();
+      expect(mirrored.toLevelOrderArray()).toEqual([1, 3, 2, 6, null, 5, 4]);
+      expect(mirrored.size).toBe(6);
+      expect(tree.toLevelOrderArray()).toEqual([1, 2, 3, 4, 5, null, 6]);
+    });
+
+    test("should prune matching subtrees", () => {
+      const tree = build();
+      expect(tree.prune((data) => data === 2)).toBe(3);
+      expect(tree.toLevelOrderArray()).toEqual([1, null, 3, null, 6]);
+      expect(tree.size).toBe(3);
+
+      expect(tree.prune((data) => data > 10)).toBe(0);
+      expect(tree.size).toBe(3);
+    });
+
+    test("should empty the tree when pruning the root", () => {
+      const tree = build();
+      expect(tree.prune((data) => data === 1)).toBe(6);
+      expect(tree.isEmpty).toBe(true);
+      expect(tree.size).toBe(0);
+      expect(tree.prune(() => true)).toBe(0);
+    });
+
+    test("should flatten into a linked list", () => {
+      const tree = build();
+      expect(tree.flattenToList().toArray()).toEqual([4, 2, 5, 1, 3, 6]);
+      expect(tree.flattenToList("levelOrder").toArray()).toEqual([
+        1, 2, 3, 4, 5, 6,
+      ]);
+      expect(new BinaryTree<number>().flattenToList().size).toBe(0);
+    });
+
+    test("should clone the shape and apply the mapper", () => {
+      const tree = BinaryTree.fromLevelOrder([{ id: 1 }, { id: 2 }]);
+      const shallow = tree.clone();
+      const deep = tree.clone((data) => ({ ...data }));
+
+      expect(shallow.equals(tree)).toBe(true);
+      expect(deep.equals(tree)).toBe(false);
+      expect(deep.equals(tree, (a, b) => a.id === b.id)).toBe(true);
+
+      shallow.detach(["left"]);
+      expect(tree.size).toBe(2);
+    });
+
+    test("should compare shape and data", () => {
+      expect(build().equals(build())).toBe(true);
+      expect(
+        build().equals(BinaryTree.fromLevelOrder([1, 2, 3, 4, 5, 6])),
+      ).toBe(false);
+      expect(build().equals(BinaryTree.fromLevelOrder([1, 2, 3, 4, 5]))).toBe(
+        false,
+      );
+      expect(new BinaryTree<number>().equals(new BinaryTree<number>())).toBe(
+        true,
+      );
+    });
+  });
+
+  describe("Serialization", () => {
+    const tree = BinaryTree.fromLevelOrder<unknown>([
+      "root",
+      { id: 1 },
+      3,
+      null,
+      "a,b#c:d",
+    ]);
+
+    test("should produce nested nodes with toJSON", () => {
+      expect(BinaryTree.fromLevelOrder([1, 2]).toJSON()).toEqual({
+        value: 1,
+        left: { value: 2, left: null, right: null },
+        right: null,
+      });
+      expect(new BinaryTree<number>().toJSON()).toBe(null);
+    });
+
+    test("should preserve shape and data through JSON", () => {
+      const restored = BinaryTree.fromJSON(JSON.parse(JSON.stringify(tree)));
+      expect(
+        restored.equals(
+          tree,
+          (a, b) => JSON.stringify(a) === JSON.stringify(b),
+        ),
+      ).toBe(true);
+      expect(restored.size).toBe(4);
+      expect(BinaryTree.fromJSON(null).isEmpty).toBe(true);
+    });
+
+    test("should serialize in pre-order with null markers", () => {
+      expect(BinaryTree.fromLevelOrder([1, 2, 3, null, 4]).serialize()).toBe(
+        "1,2,#,4,#,#,3,#,#",
+      );
+      expect(new BinaryTree<number>().serialize()).toBe("#");
+    });
+
+    test("should escape separators in the compact form", () => {
+      const restored = BinaryTree.deserialize(tree.serialize());
+      expect(restored.toLevelOrderArray()).toEqual(tree.toLevelOrderArray());
+      expect(restored.getData(["left", "right"])).toBe("a,b#c:d");
+      expect(BinaryTree.deserialize("#").isEmpty).toBe(true);
+    });
+
+    test("should restore data with revivers", () => {
+      const dates = BinaryTree.fromLevelOrder([new Date(0), null, new Date(1)]);
+      const restored = BinaryTree.deserialize(
+        dates.serialize(),
+        (value) => new Date(value as string),
+      );
+      expect(restored.getData(["right"])!.getTime()).toBe(1);
+
+      const fromJSON = BinaryTree.fromJSON(
+        JSON.parse(JSON.stringify(dates)),
+        (value) => new Date(value as string),
+      );
+      expect(fromJSON.getData([])!.getTime()).toBe(0);
+    });
+
+    test("should reject malformed input", () => {
+      for (const text of ["", "1,#", "1,#,#,#", "%ZZ,#,#", "{,#,#"]) {
+        expect(() => BinaryTree.deserialize(text)).toThrow(
+          "[BinaryTree.deserialize] Malformed serialized tree.",
+        );
+      }
+      expect(() => BinaryTree.fromJSON({ value: 1 } as any)).toThrow(
+        "[BinaryTree.fromJSON] Malformed serialized tree.",
+      );
+    });
+
+    test("should reject undefined data", () => {
+      const holey = new BinaryTree<number | undefined>(1);
+      holey.insertLeft([], undefined);
+
+      expect(() => holey.serialize()).toThrow(
+        "[BinaryTree.serialize] Cannot serialize undefined data.",
+      );
+      expect(() => JSON.stringify(holey)).toThrow(
+        "[BinaryTree.toJSON] Cannot serialize undefined data.",
+      );
+
+      const nullable = BinaryTree.fromLevelOrder<number | null>([1]);
+      nullable.insertLeft([], null);
+      expect(BinaryTree.deserialize(nullable.serialize()).size).toBe(2);
+    });
+
+    test("should reject repeated values", () => {
+      expect(() => BinaryTree.deserialize("1:3,#,#")).toThrow(
+        "[BinaryTree.deserialize] Binary tree nodes cannot repeat a value (count 3).",
+      );
+      expect(() =>
+        BinaryTree.fromJSON({ value: 1, count: 2, left: null, right: null }),
+      ).toThrow(
+        "[BinaryTree.fromJSON] Binary tree nodes cannot repeat a value (count 2).",
+      );
+    });
+
+    test("should handle degenerate trees without recursion", () => {
+      const chain = BinaryTree.fromLevelOrder(
+        Array.from({ length: 20000 }, (_, i) => (i % 2 === 0 ? i : null)),
+      );
+      const restored = BinaryTree.deserialize(chain.serialize());
+      expect(restored.size).toBe(chain.size);
+      expect(restored.equals(chain)).toBe(true);
+    });
+  });
+
+  describe("Rendering", () => {
+    const expression = BinaryTree.fromLevelOrder(["*", "+", "c", "a", "b"]);
+
+    test("should draw a sideways ASCII diagram", () => {
+      expect(expression.toString()).toBe(
+        ["/-- c", "*", "|   /-- b", "\\-- +", "    \\-- a"].join("\n"),
+      );
+      expect(new BinaryTree<string>().toString()).toBe("");
+    });
+
+    test("should draw a top-down ASCII diagram", () => {
+      expect(expression.toString({ layout: "topDown" })).toBe(
+        ["  _*", " /  \\", " +  c", "/ \\", "a b"].join("\n"),
+      );
+      expect(
+        BinaryTree.fromLevelOrder([1, null, 2]).toString({ layout: "topDown" }),
+      ).toBe(["1", " \\", " 2"].join("\n"));
+    });
+
+    test("should use custom labels", () => {
+      const tree = BinaryTree.fromLevelOrder([{ op: "+" }, { op: "x" }]);
+      expect(tree.toString({ label: (data) => data.op })).toBe("+\n\\-- x");
+    });
+
+    test("should print the diagram", () => {
+      const original = console.log;
+      const logged: unknown[] = [];
+      console.log = (message: unknown) => logged.push(message);
+      try {
+        expression.print({ layout: "topDown" });
+      } finally {
+        console.log = original;
+      }
+      expect(logged).toEqual([expression.toString({ layout: "topDown" })]);
+    });
+
+    test("should highlight a path in DOT documents", () => {
+      expect(expression.toDot({ highlight: ["left", "right"] })).toBe(
+        [
+          'digraph "tree" {',
+          '  n0 [label="*", color="red", penwidth=2];',
+          '  n0 -> n1 [color="red", penwidth=2];',
+          "  n0 -> n2;",
+          '  n1 [label="+", color="red", penwidth=2];',
+          "  n1 -> n3;",
+          '  n1 -> n4 [color="red", penwidth=2];',
+          '  n3 [label="a"];',
+          '  n4 [label="b", color="red", penwidth=2];',
+          '  n2 [label="c"];',
+          "}",
+        ].join("\n"),
+      );
+    });
+
+    test("should keep the side of single children in DOT documents", () => {
+      const tree = BinaryTree.fromLevelOrder(['say "hi"', null, "x"]);
+      expect(tree.toDot({ name: "g", highlight: ["left"] })).toBe(
+        [
+          'digraph "g" {',
+          '  n0 [label="say \\"hi\\""];',
+          '  n1 [label="", style=invis];',
+          "  n0 -> n1 [style=invis];",
+          "  n0 -> n2;",
+          '  n2 [label="x"];',
+          "}",
+        ].join("\n"),
+      );
+      expect(new BinaryTree<number>().toDot()).toBe('digraph "tree" {\n}');
+    });
+  });
+
+  describe("Degenerate Trees", () => {
+    const length = 50000;
+    const buildChain = () => {
+      let chain = new BinaryTree(0);
+      for (let i = 1; i < length; i++) {
+        chain = new BinaryTree(i, chain);
+      }
+      return chain;
+    };
+
+    test("should measure deep trees without recursion", () => {
+      const chain = buildChain();
+
+      expect(chain.height).toBe(length - 1);
+      expect(chain.isPerfect()).toBe(false);
+      expect(new BinaryTree(0).isPerfect()).toBe(true);
+    });
+
+    test("should detach deep subtrees without recursion", () => {
+      const chain = buildChain();
+      const detached = chain.detach(["left"]);
+
+      expect(detached.size).toBe(length - 1);
+      expect(chain.size).toBe(1);
+    });
+
+    test("should replace subtrees with deep trees without recursion", () => {
+      const host = new BinaryTree(-1);
+      const replaced = host.replaceSubtree(["right"], buildChain());
+
+      expect(replaced.isEmpty).toBe(true);
+      expect(host.size).toBe(length + 1);
+
+      host.replaceSubtree([], null);
+      expect(host.isEmpty).toBe(true);
+    });
+
+    test("should prune deep subtrees without recursion", () => {
+      const chain = buildChain();
+
+      expect(chain.prune((data) => data === length - 2)).toBe(length - 1);
+      expect(chain.size).toBe(1);
+    });
+
+    test("should rebuild skewed trees from traversals without recursion", () => {
+      const chain = buildChain();
+      const rebuilt = BinaryTree.fromPreorderInorder(
+        chain.toArray("preOrder"),
+        chain.toArray("inOrder"),
+      );
+
+      expect(rebuilt.size).toBe(length);
+      expect(rebuilt.equals(chain)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import { describe, test, expect } from "bun:test";
+import { ExpressionTree } from "../src/ExpressionTree";
+import { BinaryTree } from "../src/BinaryTree";
+
+describe("ExpressionTree", () => {
+  describe("Parsing", () => {
+    test("should respect precedence and associativity", () => {
+      expect(ExpressionTree.parse("1 + 2 * 3").toPostfix()).toBe("1 2 3 * +");
+      expect(ExpressionTree.parse("a - b - c").toPostfix()).toBe("a b - c -");
+      expect(ExpressionTree.parse("2 ^ 3 ^ 2").toPostfix()).toBe("2 3 2 ^ ^");
+      expect(ExpressionTree.parse("(1 + 2) * 3").toPostfix()).toBe("1 2 + 3 *");
+    });
+
+    test("should parse unary operators", () => {
+      expect(ExpressionTree.parse("-2 ^ 2").toPostfix()).toBe("2 2 ^ neg");
+      expect(ExpressionTree.parse("-a * b").toPostfix()).toBe("a neg b *");
+      expect(ExpressionTree.parse("!a && b").toPostfix()).toBe("a ! b &&");
+      expect(ExpressionTree.parse("2 ^ -x").toPostfix()).toBe("2 x neg ^");
+    });
+
+    test("should parse literals and variable names", () => {
+      const tree = ExpressionTree.parse("user.age >= 1.5e1 || .5 < $x && true");
+      expect(tree.variables()).toEqual(["user.age", "$x"]);
+      expect(tree.toPrefix()).toBe("|| >= user.age 15 && < 0.5 $x true");
+    });
+
+    test("should store the expression as a BinaryTree", () => {
+      const tree = ExpressionTree.parse("a + 1").toBinaryTree();
+      expect(tree.size).toBe(3);
+      expect(tree.getData([])).toEqual({ type: "binary", operator: "+" });
+      expect(tree.getData(["right"])).toEqual({ type: "number", value: 1 });
+    });
+
+    test("should report syntax errors with positions", () => {
+      const cases: [string, string][] = [
+        ["", "Unexpected end of expression."],
+        ["1 +", "Unexpected end of expression."],
+        ["(1 + 2", 'Unmatched "(" at position 0.'],
+        ["1 + 2)", 'Unmatched ")" at position 5.'],
+        ["1 2", 'Unexpected token "2" at position 2.'],
+        ["a = b", 'Unexpected character "=" at position 2.'],
+        ["* 3", 'Unexpected token "*" at position 0.'],
+        ["f()", 'Unexpected token "(" at position 1.'],
+        ["a !b", 'Unexpected token "!" at position 2.'],
+      ];
+
+      for (const [source, message] of cases) {
+        expect(() => ExpressionTree.parse(source)).toThrow(
+          `[ExpressionTree.parse] ${message}`,
+        );
+      }
+    });
+  });
+
+  describe("Evaluation", () => {
+    test("should evaluate arithmetic", () => {
+      expect(ExpressionTree.parse("1 + 2 * 3 - 8 / 4").evaluate()).toBe(5);
+      expect(ExpressionTree.parse("2 ^ 3 ^ 2").evaluate()).toBe(512);
+      expect(ExpressionTree.parse("-2 ^ 2").evaluate()).toBe(-4);
+      expect(ExpressionTree.parse("(-2) ^ 2").evaluate()).toBe(4);
+      expect(ExpressionTree.parse("7 % 3").evaluate()).toBe(1);
+    });
+
+    test("should evaluate with an environment", () => {
+      const rule = ExpressionTree.parse("age >= 18 && (country == 1 || vip)");
+      expect(rule.evaluate({ age: 21, country: 2, vip: true })).toBe(true);
+      expect(rule.evaluate({ age: 21, country: 2, vip: false })).toBe(false);
+      expect(rule.evaluate({ age: 12, country: 1, vip: true })).toBe(false);
+    });
+
+    test("should short-circuit boolean operators", () => {
+      expect(ExpressionTree.parse("false && missing").evaluate()).toBe(false);
+      expect(ExpressionTree.parse("true || missing").evaluate()).toBe(true);
+    });
+
+    test("should evaluate deep expressions without recursion", () => {
+      const sum = ExpressionTree.parse("x" + " + 1".repeat(50000));
+      expect(sum.evaluate({ x: 1 })).toBe(50001);
+
+      const power = ExpressionTree.parse("1" + " ^ 1".repeat(50000));
+      expect(power.evaluate()).toBe(1);
+
+      const either = ExpressionTree.parse("flag" + " || missing".repeat(50000));
+      expect(either.evaluate({ flag: true })).toBe(true);
+    });
+
+    test("should reject unknown variables and mistyped operands", () => {
+      expect(() => ExpressionTree.parse("x + 1").evaluate()).toThrow(
+        '[ExpressionTree.evaluate] Unknown variable "x".',
+      );
+      expect(() => ExpressionTree.parse("toString").evaluate()).toThrow(
+        "Unknown variable",
+      );
+      expect(() => ExpressionTree.parse("1 + true").evaluate()).toThrow(
+        '[ExpressionTree.evaluate] Operator "+" expects number operands.',
+      );
+      expect(() => ExpressionTree.parse("!1").evaluate()).toThrow(
+        'Operator "!" expects boolean operands.',
+      );
+      expect(() => ExpressionTree.parse("true * missing").evaluate()).toThrow(
+        'Operator "*" expects number operands.',
+      );
+    });
+  });
+
+  describe("Printing", () => {
+    test("toInfix should use minimal parentheses", () => {
+      const cases = [
+        ["(a + b) * c", "(a + b) * c"],
+        ["a + (b * c)", "a + b * c"],
+        ["a - (b - c)", "a - (b - c)"],
+        ["((a - b)) - c", "a - b - c"],
+        ["(2 ^ 3) ^ 2", "(2 ^ 3) ^ 2"],
+        ["2^(3^2)", "2 ^ 3 ^ 2"],
+        ["-(a + b)", "-(a + b)"],
+        ["(-a) ^ 2", "(-a) ^ 2"],
+        ["!(a && b) || c", "!(a && b) || c"],
+      ];
+
+      for (const [source, infix] of cases) {
+        const tree = ExpressionTree.parse(source!);
+        expect(tree.toInfix()).toBe(infix!);
+        expect(ExpressionTree.parse(infix!).toPostfix()).toBe(tree.toPostfix());
+      }
+    });
+
+    test("prefix and postfix notation", () => {
+      const tree = ExpressionTree.parse("(a + 1) * -b");
+      expect(tree.toPrefix()).toBe("* + a 1 neg b");
+      expect(tree.toPostfix()).toBe("a 1 + b neg *");
+      expect(String(tree)).toBe("(a + 1) * -b");
+    });
+  });
+
+  describe("Constant Folding", () => {
+    test("should fold variable-free subexpressions", () => {
+      expect(
+        ExpressionTree.parse("x * (2 + 3)").foldConstants().toInfix(),
+      ).toBe("x * 5");
+      expect(
+        ExpressionTree.parse("1 + 2 * 3 - x / (4 - 2)")
+          .foldConstants()
+          .toInfix(),
+      ).toBe("7 - x / 2");
+      expect(
+        ExpressionTree.parse("!(1 > 2) && y").foldConstants().toInfix(),
+      ).toBe("true && y");
+    });
+
+    test("should keep the folded tree equivalent", () => {
+      const tree = ExpressionTree.parse("(2 - 5) ^ 2 + x * -(1 + 1)");
+      const folded = tree.foldConstants();
+
+      expect(folded.toInfix()).toBe("9 + x * -2");
+      expect(folded.evaluate({ x: 4 })).toBe(tree.evaluate({ x: 4 }));
+      expect(
+        ExpressionTree.parse("(0 - 2) ^ x").foldConstants().toInfix(),
+      ).toBe("(-2) ^ x");
+    });
+
+    test("should keep subexpressions that cannot be folded", () => {
+      expect(ExpressionTree.parse("1 / 0 + x").foldConstants().toInfix()).toBe(
+        "1 / 0 + x",
+      );
+      expect(ExpressionTree.parse("1 + true").foldConstants().toInfix()).toBe(
+        "1 + true",
+      );
+    });
+
+    test("should not modify the original tree", () => {
+      const tree = ExpressionTree.parse("1 + 2");
+      expect(tree.foldConstants().toInfix()).toBe("3");
+      expect(tree.toInfix()).toBe("1 + 2");
+    });
+  });
+
+  describe("BinaryTree Interop", () => {
+    test("should round trip through BinaryTree serialization", () => {
+      const tree = ExpressionTree.parse("a * (b + -2)");
+      const text = tree.toBinaryTree().serialize();
+      const restored = ExpressionTree.fromBinaryTree(
+        BinaryTree.deserialize(text),
+      );
+
+      expect(restored.toInfix()).toBe("a * (b + -2)");
+      expect(restored.evaluate({ a: 2, b: 5 })).toBe(6);
+    });
+
+    test("should reject malformed trees", () => {
+      const tree = new BinaryTree<any>({ type: "binary", operator: "+" });
+      tree.insertLeft([], { type: "number", value: 1 });
+      expect(() => ExpressionTree.fromBinaryTree(tree)).toThrow(
+        "[ExpressionTree.fromBinaryTree] Malformed expression.",
+      );
+      expect(() => ExpressionTree.fromBinaryTree(new BinaryTree())).toThrow(
+        "Malformed expression",
+      );
+    });
+  });
+});
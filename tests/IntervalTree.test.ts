@@ -0,0 +1,169 @@
+import { describe, test, expect } from "bun:test";
+import { IntervalTree, Interval } from "../src/IntervalTree";
+
+interface Booking extends Interval<number> {
+  id: string;
+}
+
+const booking = (id: string, start: number, end: number): Booking => ({
+  id,
+  start,
+  end,
+});
+
+const ids = (bookings: Booking[]): string[] => bookings.map((b) => b.id);
+
+describe("IntervalTree", () => {
+  describe("Constructor and Basic Properties", () => {
+    test("should create empty tree by default", () => {
+      const tree = new IntervalTree<number>();
+      expect(tree.isEmpty).toBe(true);
+      expect(tree.size).toBe(0);
+      expect(tree.height).toBe(-1);
+      expect(tree.toArray()).toEqual([]);
+    });
+
+    test("should keep intervals ordered by start then end", () => {
+      const tree = new IntervalTree<number, Booking>();
+      tree.insert(booking("c", 5, 9));
+      tree.insert(booking("a", 1, 4));
+      tree.insert(booking("b", 1, 2));
+
+      expect(ids(tree.toArray())).toEqual(["b", "a", "c"]);
+      expect(tree.size).toBe(3);
+    });
+
+    test("should reject invalid intervals", () => {
+      const tree = new IntervalTree<number>();
+      expect(() => tree.insert({ start: 5, end: 1 })).toThrow(
+        "Interval start must not be greater than its end",
+      );
+      expect(() => tree.insert({ start: null as any, end: 1 })).toThrow(
+        "Interval endpoints cannot be null or undefined",
+      );
+    });
+  });
+
+  describe("Insert and Remove", () => {
+    test("should keep duplicate intervals", () => {
+      const tree = new IntervalTree<number, Booking>();
+      tree.insert(booking("a", 1, 3));
+      tree.insert(booking("b", 1, 3));
+
+      expect(tree.size).toBe(2);
+      expect(ids(tree.stabbing(2))).toEqual(["a", "b"]);
+    });
+
+    test("remove should prefer the exact object", () => {
+      const tree = new IntervalTree<number, Booking>();
+      const first = booking("a", 1, 3);
+      const second = booking("b", 1, 3);
+      tree.insert(first);
+      tree.insert(second);
+
+      expect(tree.remove(second)).toBe(true);
+      expect(ids(tree.toArray())).toEqual(["a"]);
+    });
+
+    test("remove should fall back to matching endpoints", () => {
+      const tree = new IntervalTree<number>();
+      tree.insert({ start: 1, end: 3 });
+
+      expect(tree.remove({ start: 1, end: 3 })).toBe(true);
+      expect(tree.remove({ start: 1, end: 3 })).toBe(false);
+      expect(tree.isEmpty).toBe(true);
+    });
+
+    test("should stay balanced and valid under many updates", () => {
+      const tree = new IntervalTree<number>();
+      for (let i = 0; i < 1000; i++) {
+        tree.insert({ start: i, end: i + ((i * 7) % 50) });
+      }
+      expect(tree.height).toBeLessThanOrEqual(
+        Math.ceil(1.44 * Math.log2(1002)),
+      );
+      expect(tree.isValidIntervalTree()).toBe(true);
+
+      for (let i = 0; i < 1000; i += 2) {
+        expect(tree.remove({ start: i, end: i + ((i * 7) % 50) })).toBe(true);
+      }
+      expect(tree.size).toBe(500);
+      expect(tree.isValidIntervalTree()).toBe(true);
+    });
+
+    test("clear should empty the tree", () => {
+      const tree = new IntervalTree<number>();
+      tree.insert({ start: 1, end: 2 });
+      tree.clear();
+      expect(tree.size).toBe(0);
+      expect(tree.anyOverlap({ start: 0, end: 10 })).toBe(null);
+    });
+  });
+
+  describe("Queries", () => {
+    const tree = new IntervalTree<number, Booking>();
+    tree.insert(booking("standup", 9, 10));
+    tree.insert(booking("review", 10, 12));
+    tree.insert(booking("lunch", 12, 13));
+    tree.insert(booking("offsite", 8, 17));
+    tree.insert(booking("late", 18, 19));
+
+    test("overlapping should treat intervals as closed", () => {
+      expect(ids(tree.overlapping({ start: 10, end: 11 }))).toEqual([
+        "offsite",
+        "standup",
+        "review",
+      ]);
+      expect(ids(tree.overlapping({ start: 17, end: 18 }))).toEqual([
+        "offsite",
+        "late",
+      ]);
+      expect(tree.overlapping({ start: 20, end: 30 })).toEqual([]);
+    });
+
+    test("stabbing should find intervals containing a point", () => {
+      expect(ids(tree.stabbing(12.5))).toEqual(["offsite", "lunch"]);
+      expect(ids(tree.stabbing(7))).toEqual([]);
+    });
+
+    test("anyOverlap should find an overlapping interval or null", () => {
+      const hit = tree.anyOverlap({ start: 18.5, end: 20 });
+      expect(hit?.id).toBe("late");
+      expect(tree.anyOverlap({ start: 17.5, end: 17.9 })).toBe(null);
+      expect(tree.anyOverlap({ start: 0, end: 7 })).toBe(null);
+    });
+
+    test("queries should match a brute-force scan", () => {
+      const random = new IntervalTree<number>();
+      const all: Interval<number>[] = [];
+      for (let i = 0; i < 300; i++) {
+        const start = (i * 61) % 500;
+        const interval = { start, end: start + ((i * 13) % 40) };
+        all.push(interval);
+        random.insert(interval);
+      }
+
+      for (let lo = 0; lo < 540; lo += 17) {
+        const range = { start: lo, end: lo + 5 };
+        const expected = all.filter(
+          (x) => x.start <= range.end && range.start <= x.end,
+        );
+        const found = random.overlapping(range);
+
+        expect(found.length).toBe(expected.length);
+        expect(new Set(found)).toEqual(new Set(expected));
+        expect(random.anyOverlap(range) !== null).toBe(expected.length > 0);
+      }
+    });
+  });
+
+  test("should respect custom comparators", () => {
+    const byDate = (a: Date, b: Date) => a.getTime() - b.getTime();
+    const tree = new IntervalTree<Date>(byDate);
+    tree.insert({ start: new Date(2024, 0, 1), end: new Date(2024, 0, 5) });
+    tree.insert({ start: new Date(2024, 0, 10), end: new Date(2024, 0, 12) });
+
+    expect(tree.stabbing(new Date(2024, 0, 3)).length).toBe(1);
+    expect(tree.stabbing(new Date(2024, 0, 7)).length).toBe(0);
+  });
+});
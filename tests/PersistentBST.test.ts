@@ -0,0 +1,220 @@
+import { describe, test, expect } from "bun:test";
+import { PersistentBST } from "../src/PersistentBST";
+import { BinarySearchTree } from "../src/BinarySearchTree";
+import { RangeError } from "../src/Errors";
+
+describe("PersistentBST", () => {
+  describe("Constructor and Basic Properties", () => {
+    test("should create empty tree by default", () => {
+      const tree = new PersistentBST<number>();
+      expect(tree.isEmpty).toBe(true);
+      expect(tree.size).toBe(0);
+      expect(tree.height).toBe(-1);
+      expect(tree.getRootValue()).toBe(null);
+    });
+
+    test("should accept custom comparator", () => {
+      const tree = PersistentBST.fromArray([1, 3, 2], (a, b) => b - a);
+      expect(tree.toArray()).toEqual([3, 2, 1]);
+    });
+  });
+
+  describe("Persistence", () => {
+    test("insert should leave previous versions untouched", () => {
+      const v0 = new PersistentBST<number>();
+      const v1 = v0.insert(2);
+      const v2 = v1.insert(1).insert(3);
+
+      expect(v0.toArray()).toEqual([]);
+      expect(v1.toArray()).toEqual([2]);
+      expect(v2.toArray()).toEqual([1, 2, 3]);
+    });
+
+    test("remove should leave previous versions untouched", () => {
+      const v1 = PersistentBST.fromArray([5, 3, 8, 1, 4]);
+      const v2 = v1.remove(3);
+
+      expect(v1.contains(3)).toBe(true);
+      expect(v1.size).toBe(5);
+      expect(v2.contains(3)).toBe(false);
+      expect(v2.toArray()).toEqual([1, 4, 5, 8]);
+      expect(v2.isValidBST()).toBe(true);
+    });
+
+    test("no-op updates should return the same version", () => {
+      const tree = PersistentBST.fromArray([1, 2, 3]);
+      expect(tree.insert(2)).toBe(tree);
+      expect(tree.remove(42)).toBe(tree);
+      expect(tree.remove(null as any)).toBe(tree);
+    });
+
+    test("clear should return an empty version", () => {
+      const tree = PersistentBST.fromArray([1, 2, 3]);
+      const empty = tree.clear();
+      expect(empty.isEmpty).toBe(true);
+      expect(tree.size).toBe(3);
+    });
+
+    test("many versions should stay consistent", () => {
+      const versions = [new PersistentBST<number>()];
+      for (let i = 0; i < 200; i++) {
+        versions.push(versions[versions.length - 1]!.insert((i * 37) % 200));
+      }
+
+      versions.forEach((version, i) => {
+        expect(version.size).toBe(i);
+      });
+      expect(versions[200]!.toArray()).toEqual(
+        Array.from({ length: 200 }, (_, i) => i),
+      );
+    });
+
+    test("should throw error for null/undefined values", () => {
+      const tree = new PersistentBST<number>();
+      expect(() => tree.insert(null as any)).toThrow(
+        "Cannot insert null or undefined value",
+      );
+    });
+  });
+
+  describe("Balancing", () => {
+    test("should stay balanced with sorted insertions and removals", () => {
+      let tree = new PersistentBST<number>();
+      for (let i = 0; i < 1000; i++) {
+        tree = tree.insert(i);
+      }
+      expect(tree.height).toBeLessThanOrEqual(
+        Math.ceil(1.44 * Math.log2(1002)),
+      );
+      expect(tree.isValidBST()).toBe(true);
+
+      for (let i = 0; i < 1000; i += 2) {
+        tree = tree.remove(i);
+      }
+      expect(tree.size).toBe(500);
+      expect(tree.isValidBST()).toBe(true);
+    });
+  });
+
+  describe("Queries", () => {
+    const tree = PersistentBST.fromArray([50, 25, 75, 10, 30, 60, 80]);
+
+    test("search and contains", () => {
+      expect(tree.search(30)).toBe(30);
+      expect(tree.search(31)).toBe(null);
+      expect(tree.contains(80)).toBe(true);
+      expect(tree.contains(null as any)).toBe(false);
+    });
+
+    test("min and max", () => {
+      expect(tree.findMin()).toBe(10);
+      expect(tree.findMax()).toBe(80);
+      expect(new PersistentBST<number>().findMin()).toBe(null);
+    });
+
+    test("navigation", () => {
+      expect(tree.floor(55)).toBe(50);
+      expect(tree.ceiling(55)).toBe(60);
+      expect(tree.lower(50)).toBe(30);
+      expect(tree.higher(50)).toBe(60);
+      expect(tree.higher(80)).toBe(null);
+    });
+
+    test("order statistics", () => {
+      expect(tree.select(0)).toBe(10);
+      expect(tree.select(6)).toBe(80);
+      expect(tree.rank(55)).toBe(4);
+      expect(() => tree.select(7)).toThrow(RangeError);
+    });
+
+    test("iteration", () => {
+      expect([...tree]).toEqual([10, 25, 30, 50, 60, 75, 80]);
+      expect(tree.inOrderTraversal()).toEqual([...tree]);
+    });
+
+    test("empty tree queries", () => {
+      const empty = new PersistentBST<number>();
+      expect(empty.median()).toBe(null);
+      expect(empty.successor(1)).toBe(null);
+      expect(empty.countRange(0, 10)).toBe(0);
+      expect([...empty.range(0, 10)]).toEqual([]);
+      expect([...empty.levelOrder()]).toEqual([]);
+      expect(() => empty.kthSmallest(1)).toThrow(RangeError);
+    });
+  });
+
+  describe("Parity with BinarySearchTree", () => {
+    // Deterministic shuffle of 0, 2, 4, ..., 398
+    const values = Array.from({ length: 200 }, (_, i) => ((i * 73) % 200) * 2);
+    const persistent = PersistentBST.fromArray(values);
+    const mutable = new BinarySearchTree<number>({ balance: "avl" });
+    mutable.insertBatch(values);
+
+    test("should navigate like BinarySearchTree", () => {
+      for (const value of [-1, 0, 1, 2, 57, 200, 397, 398, 399]) {
+        expect(persistent.successor(value)).toBe(mutable.successor(value));
+        expect(persistent.predecessor(value)).toBe(mutable.predecessor(value));
+      }
+    });
+
+    test("should answer order statistics like BinarySearchTree", () => {
+      for (const k of [1, 2, 100, 199, 200]) {
+        expect(persistent.kthSmallest(k)).toBe(mutable.kthSmallest(k));
+        expect(persistent.kthLargest(k)).toBe(mutable.kthLargest(k));
+      }
+      expect(persistent.median()).toBe(mutable.median());
+
+      expect(() => persistent.kthSmallest(0)).toThrow(
+        "[PersistentBST.kthSmallest] k 0 is out of bounds. Size: 200.",
+      );
+      expect(() => persistent.kthLargest(201)).toThrow(RangeError);
+    });
+
+    test("should answer range queries like BinarySearchTree", () => {
+      const bounds: [number, number][] = [
+        [10, 20],
+        [11, 19],
+        [-5, 5],
+        [390, 500],
+        [20, 10],
+      ];
+      const inclusiveness = [
+        {},
+        { loInclusive: false },
+        { hiInclusive: false },
+        { loInclusive: false, hiInclusive: false },
+      ];
+
+      for (const [lo, hi] of bounds) {
+        for (const options of inclusiveness) {
+          expect([...persistent.range(lo, hi, options)]).toEqual([
+            ...mutable.range(lo, hi, options),
+          ]);
+          expect(persistent.countRange(lo, hi, options)).toBe(
+            mutable.countRange(lo, hi, options),
+          );
+        }
+      }
+    });
+
+    test("should traverse like BinarySearchTree", () => {
+      expect([...persistent.inOrder()]).toEqual([...mutable.inOrder()]);
+      expect([...persistent.reverseInOrder()]).toEqual([
+        ...mutable.reverseInOrder(),
+      ]);
+      expect([...persistent.preOrder()]).toEqual([...mutable.preOrder()]);
+      expect([...persistent.postOrder()]).toEqual([...mutable.postOrder()]);
+      expect([...persistent.levelOrder()]).toEqual([...mutable.levelOrder()]);
+    });
+
+    test("queries should not copy or change the version", () => {
+      const root = persistent.getRootValue();
+      [...persistent.range(0, 398)];
+      persistent.kthLargest(3);
+
+      expect(persistent.getRootValue()).toBe(root);
+      expect(persistent.size).toBe(200);
+      expect(persistent.isValidBST()).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, test, expect } from "bun:test";
+import { PriorityQueue } from "../src/PriorityQueue";
+
+describe("PriorityQueue – constructor", () => {
+  test("empty by default", () => {
+    const queue = new PriorityQueue<number>();
+    expect(queue.size).toBe(0);
+    expect(queue.isEmpty()).toBe(true);
+    expect(queue.peek()).toBeNull();
+    expect(queue.dequeue()).toBeNull();
+  });
+
+  test("accepts a comparator or options", () => {
+    const byLength = new PriorityQueue<string>((a, b) => a.length - b.length);
+    ["ccc", "a", "bb"].forEach((value) => byLength.enqueue(value));
+    expect(byLength.toArray()).toEqual(["a", "bb", "ccc"]);
+
+    const max = new PriorityQueue<number>({ maxHeap: true });
+    [2, 9, 4].forEach((value) => max.enqueue(value));
+    expect(max.peek()).toBe(9);
+  });
+
+  test("minHeap and maxHeap factories", () => {
+    const min = PriorityQueue.minHeap<number>();
+    const max = PriorityQueue.maxHeap<number>();
+    for (const value of [5, 1, 8, 3]) {
+      min.enqueue(value);
+      max.enqueue(value);
+    }
+    expect(min.toArray()).toEqual([1, 3, 5, 8]);
+    expect(max.toArray()).toEqual([8, 5, 3, 1]);
+
+    const byAge = PriorityQueue.maxHeap<{ age: number }>(
+      (a, b) => a.age - b.age,
+    );
+    byAge.enqueue({ age: 30 });
+    byAge.enqueue({ age: 70 });
+    expect(byAge.dequeue()).toEqual({ age: 70 });
+  });
+});
+
+describe("PriorityQueue – enqueue + dequeue", () => {
+  test("serves values by priority", () => {
+    const queue = new PriorityQueue<number>();
+    [5, 3, 8, 1, 9, 2, 3].forEach((value) => queue.enqueue(value));
+
+    const result: number[] = [];
+    while (!queue.isEmpty()) result.push(queue.dequeue()!);
+    expect(result).toEqual([1, 2, 3, 3, 5, 8, 9]);
+  });
+
+  test("peek does not remove element", () => {
+    const queue = new PriorityQueue<string>();
+    queue.enqueue("b");
+    queue.enqueue("a");
+    expect(queue.peek()).toBe("a");
+    expect(queue.size).toBe(2);
+  });
+
+  test("clear empties the queue", () => {
+    const queue = PriorityQueue.fromArray([3, 1, 2]);
+    queue.clear();
+    expect(queue.size).toBe(0);
+    expect(queue.peek()).toBeNull();
+    expect(queue.dequeue()).toBeNull();
+  });
+
+  test("rejects null and undefined", () => {
+    const queue = new PriorityQueue<number>();
+    expect(() => queue.enqueue(null as any)).toThrow(
+      "[PriorityQueue.enqueue] Cannot enqueue null or undefined value.",
+    );
+    expect(() => PriorityQueue.fromArray([1, undefined as any])).toThrow(
+      "[PriorityQueue.fromArray] Cannot enqueue null or undefined value.",
+    );
+  });
+});
+
+describe("PriorityQueue – fromArray", () => {
+  test("heapifies without modifying the source", () => {
+    const source = [7, 2, 9, 4, 1, 8];
+    const queue = PriorityQueue.fromArray(source);
+    expect(queue.size).toBe(6);
+    expect(queue.peek()).toBe(1);
+    expect(queue.toArray()).toEqual([1, 2, 4, 7, 8, 9]);
+    expect(source).toEqual([7, 2, 9, 4, 1, 8]);
+  });
+
+  test("accepts queue options", () => {
+    const queue = PriorityQueue.fromArray(["pear", "fig", "apple"], {
+      maxHeap: true,
+    });
+    expect(queue.dequeue()).toBe("pear");
+    expect(queue.dequeue()).toBe("fig");
+  });
+});
+
+describe("PriorityQueue – iterator", () => {
+  test("yields values in dequeue order without consuming", () => {
+    const queue = PriorityQueue.fromArray([4, 1, 3, 1, 5]);
+    expect([...queue]).toEqual([1, 1, 3, 4, 5]);
+    expect(queue.size).toBe(5);
+    expect(queue.peek()).toBe(1);
+  });
+
+  test("iterator fails if queue is modified during iteration", () => {
+    const queue = PriorityQueue.fromArray([1, 2]);
+    const iterator = queue[Symbol.iterator]();
+    expect(iterator.next().value).toBe(1);
+
+    queue.enqueue(0);
+    expect(() => iterator.next()).toThrow(
+      "[PriorityQueue.iterator] Queue was mutated during iteration.",
+    );
+  });
+});
+
+describe("PriorityQueue – stress test", () => {
+  test("sorts random values like Array.prototype.sort", () => {
+    let seed = 42;
+    const random = () => (seed = (seed * 1103515245 + 12345) % 2 ** 31);
+    const values = Array.from({ length: 10_000 }, () => random() % 1000);
+
+    const queue = new PriorityQueue<number>();
+    values.slice(0, 5000).forEach((value) => queue.enqueue(value));
+    const heapified = PriorityQueue.fromArray(values.slice(5000));
+    while (!heapified.isEmpty()) queue.enqueue(heapified.dequeue()!);
+
+    const result: number[] = [];
+    while (!queue.isEmpty()) result.push(queue.dequeue()!);
+    expect(result).toEqual(values.sort((a, b) => a - b));
+  });
+});
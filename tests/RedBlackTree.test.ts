@@ -0,0 +1,149 @@
+import { describe, test, expect, beforeEach } from "bun:test";
+import { RedBlackTree } from "../src/RedBlackTree";
+
+describe("RedBlackTree", () => {
+  let tree: RedBlackTree<number>;
+
+  beforeEach(() => {
+    tree = new RedBlackTree<number>();
+  });
+
+  describe("Constructor and Basic Properties", () => {
+    test("should create empty tree by default", () => {
+      expect(tree.isEmpty).toBe(true);
+      expect(tree.size).toBe(0);
+      expect(tree.height).toBe(-1);
+      expect(tree.getRootValue()).toBe(null);
+      expect(tree.isValidRedBlackTree()).toBe(true);
+    });
+
+    test("should create tree with initial root value", () => {
+      const treeWithRoot = new RedBlackTree<number>(undefined, 10);
+      expect(treeWithRoot.size).toBe(1);
+      expect(treeWithRoot.getRootValue()).toBe(10);
+      expect(treeWithRoot.isValidRedBlackTree()).toBe(true);
+    });
+
+    test("should accept custom comparator", () => {
+      const reverseTree = new RedBlackTree<number>((a, b) => b - a);
+      reverseTree.insertBatch([5, 3, 7]);
+      expect(reverseTree.inOrderTraversal()).toEqual([7, 5, 3]);
+    });
+  });
+
+  describe("Insertion", () => {
+    test("should keep invariants on sorted insertions", () => {
+      for (let i = 1; i <= 100; i++) {
+        tree.insert(i);
+        expect(tree.isValidRedBlackTree()).toBe(true);
+      }
+
+      expect(tree.size).toBe(100);
+      expect(tree.height).toBeLessThanOrEqual(2 * Math.log2(101));
+    });
+
+    test("should ignore duplicate values", () => {
+      tree.insertBatch([10, 10, 10]);
+      expect(tree.size).toBe(1);
+    });
+
+    test("should throw error for null/undefined values", () => {
+      expect(() => tree.insert(null as any)).toThrow(
+        "Cannot insert null or undefined value",
+      );
+      expect(() => tree.insert(undefined as any)).toThrow(
+        "Cannot insert null or undefined value",
+      );
+    });
+  });
+
+  describe("Search and Min/Max", () => {
+    beforeEach(() => {
+      tree.insertBatch([50, 25, 75, 10, 30, 60, 80]);
+    });
+
+    test("should find existing values", () => {
+      expect(tree.search(30)).toBe(30);
+      expect(tree.contains(80)).toBe(true);
+    });
+
+    test("should return null for missing values", () => {
+      expect(tree.search(100)).toBe(null);
+      expect(tree.contains(null as any)).toBe(false);
+    });
+
+    test("should find min and max", () => {
+      expect(tree.findMin()).toBe(10);
+      expect(tree.findMax()).toBe(80);
+      expect(new RedBlackTree<number>().findMin()).toBe(null);
+      expect(new RedBlackTree<number>().findMax()).toBe(null);
+    });
+  });
+
+  describe("Removal", () => {
+    test("should remove leaf, one-child and two-children nodes", () => {
+      tree.insertBatch([50, 25, 75, 10, 30, 60, 80, 5, 15, 27, 35]);
+
+      for (const value of [5, 10, 25, 50]) {
+        expect(tree.remove(value)).toBe(true);
+        expect(tree.contains(value)).toBe(false);
+        expect(tree.isValidRedBlackTree()).toBe(true);
+      }
+
+      expect(tree.size).toBe(7);
+      expect(tree.inOrderTraversal()).toEqual([15, 27, 30, 35, 60, 75, 80]);
+    });
+
+    test("should return false for missing values", () => {
+      tree.insertBatch([1, 2, 3]);
+      expect(tree.remove(4)).toBe(false);
+      expect(tree.remove(null as any)).toBe(false);
+      expect(tree.size).toBe(3);
+    });
+
+    test("should keep invariants through random operations", () => {
+      const present = new Set<number>();
+
+      for (let i = 0; i < 2000; i++) {
+        const value = Math.floor(Math.random() * 300);
+        if (Math.random() < 0.6) {
+          tree.insert(value);
+          present.add(value);
+        } else {
+          expect(tree.remove(value)).toBe(present.delete(value));
+        }
+      }
+
+      expect(tree.isValidRedBlackTree()).toBe(true);
+      expect(tree.size).toBe(present.size);
+      expect(tree.toArray()).toEqual([...present].sort((a, b) => a - b));
+    });
+
+    test("should handle removing all nodes", () => {
+      const values = Array.from({ length: 50 }, (_, i) => i);
+      tree.insertBatch(values);
+
+      for (const value of values) {
+        expect(tree.remove(value)).toBe(true);
+        expect(tree.isValidRedBlackTree()).toBe(true);
+      }
+
+      expect(tree.isEmpty).toBe(true);
+      expect(tree.getRootValue()).toBe(null);
+    });
+  });
+
+  describe("Clear Operation", () => {
+    test("should clear all nodes", () => {
+      tree.insertBatch([3, 1, 2]);
+      tree.clear();
+
+      expect(tree.isEmpty).toBe(true);
+      expect(tree.size).toBe(0);
+      expect(tree.toArray()).toEqual([]);
+
+      tree.insert(4);
+      expect(tree.getRootValue()).toBe(4);
+    });
+  });
+});
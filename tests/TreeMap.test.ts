@@ -0,0 +1,158 @@
+import { describe, test, expect } from "bun:test";
+import { TreeMap } from "../src/TreeMap";
+
+describe("TreeMap – constructor", () => {
+  test("empty by default", () => {
+    const map = new TreeMap<number, string>();
+    expect(map.size).toBe(0);
+    expect(map.isEmpty()).toBe(true);
+    expect(map.firstKey()).toBeNull();
+    expect(map.lastKey()).toBeNull();
+  });
+
+  test("accepts a custom key comparator", () => {
+    const map = new TreeMap<number, string>((a, b) => b - a);
+    map.set(1, "a").set(3, "c").set(2, "b");
+    expect([...map.keys()]).toEqual([3, 2, 1]);
+  });
+});
+
+describe("TreeMap – get / set / has / delete", () => {
+  test("stores and retrieves values", () => {
+    const map = new TreeMap<string, number>();
+    map.set("banana", 2).set("apple", 1);
+
+    expect(map.get("apple")).toBe(1);
+    expect(map.get("banana")).toBe(2);
+    expect(map.get("cherry")).toBeUndefined();
+    expect(map.has("apple")).toBe(true);
+    expect(map.has("cherry")).toBe(false);
+  });
+
+  test("set overwrites existing keys", () => {
+    const map = new TreeMap<number, string>();
+    map.set(1, "one");
+    map.set(1, "uno");
+
+    expect(map.size).toBe(1);
+    expect(map.get(1)).toBe("uno");
+  });
+
+  test("delete removes keys", () => {
+    const map = TreeMap.fromEntries<number, string>([
+      [1, "a"],
+      [2, "b"],
+    ]);
+
+    expect(map.delete(1)).toBe(true);
+    expect(map.delete(1)).toBe(false);
+    expect(map.has(1)).toBe(false);
+    expect(map.size).toBe(1);
+  });
+
+  test("rejects null keys", () => {
+    const map = new TreeMap<number, string>();
+    expect(() => map.set(null as any, "x")).toThrow(
+      "[TreeMap.set] Cannot use null or undefined key.",
+    );
+    expect(map.get(null as any)).toBeUndefined();
+    expect(map.delete(null as any)).toBe(false);
+  });
+
+  test("clear empties the map", () => {
+    const map = TreeMap.fromEntries<number, number>([[1, 1]]);
+    map.clear();
+    expect(map.size).toBe(0);
+    expect(map.get(1)).toBeUndefined();
+  });
+});
+
+describe("TreeMap – ordering and navigation", () => {
+  const map = TreeMap.fromEntries<number, string>([
+    [30, "c"],
+    [10, "a"],
+    [20, "b"],
+  ]);
+
+  test("first and last keys", () => {
+    expect(map.firstKey()).toBe(10);
+    expect(map.lastKey()).toBe(30);
+  });
+
+  test("floor, ceiling, lower and higher keys", () => {
+    expect(map.floorKey(25)).toBe(20);
+    expect(map.floorKey(20)).toBe(20);
+    expect(map.ceilingKey(25)).toBe(30);
+    expect(map.lowerKey(20)).toBe(10);
+    expect(map.higherKey(20)).toBe(30);
+    expect(map.higherKey(30)).toBeNull();
+    expect(map.lowerKey(10)).toBeNull();
+  });
+
+  test("entries, keys and values follow key order", () => {
+    expect([...map.entries()]).toEqual([
+      [10, "a"],
+      [20, "b"],
+      [30, "c"],
+    ]);
+    expect([...map.keys()]).toEqual([10, 20, 30]);
+    expect([...map.values()]).toEqual(["a", "b", "c"]);
+    expect([...map]).toEqual([...map.entries()]);
+  });
+
+  test("stays balanced with sorted insertions", () => {
+    const big = new TreeMap<number, number>();
+    for (let i = 0; i < 1000; i++) {
+      big.set(i, i * i);
+    }
+    expect(big.get(999)).toBe(998001);
+    expect(big.size).toBe(1000);
+  });
+});
+
+describe("TreeMap – iterator", () => {
+  test("throws if a key is added during iteration", () => {
+    const map = TreeMap.fromEntries<number, number>([
+      [1, 1],
+      [2, 2],
+    ]);
+
+    expect(() => {
+      for (const [key] of map) {
+        map.set(key + 10, key);
+      }
+    }).toThrow("[TreeMap.entries] Map was mutated during iteration.");
+  });
+
+  test("reports removals with the iterating method", () => {
+    const map = TreeMap.fromEntries<number, number>([
+      [1, 1],
+      [2, 2],
+      [3, 3],
+    ]);
+
+    expect(() => {
+      for (const key of map.keys()) {
+        map.delete(key);
+      }
+    }).toThrow("[TreeMap.keys] Map was mutated during iteration.");
+
+    expect(() => {
+      for (const _ of map.values()) {
+        map.clear();
+      }
+    }).toThrow("[TreeMap.values] Map was mutated during iteration.");
+  });
+
+  test("allows updating existing values during iteration", () => {
+    const map = TreeMap.fromEntries<number, number>([
+      [1, 1],
+      [2, 2],
+    ]);
+
+    for (const [key, value] of map) {
+      map.set(key, value * 10);
+    }
+    expect([...map.values()]).toEqual([10, 20]);
+  });
+});
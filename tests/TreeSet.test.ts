@@ -0,0 +1,128 @@
+import { describe, test, expect } from "bun:test";
+import { TreeSet } from "../src/TreeSet";
+
+describe("TreeSet – basics", () => {
+  test("empty by default", () => {
+    const set = new TreeSet<number>();
+    expect(set.size).toBe(0);
+    expect(set.isEmpty()).toBe(true);
+    expect(set.first()).toBeNull();
+    expect(set.last()).toBeNull();
+  });
+
+  test("add ignores duplicates and keeps order", () => {
+    const set = new TreeSet<number>();
+    set.add(3).add(1).add(2).add(3);
+
+    expect(set.size).toBe(3);
+    expect([...set]).toEqual([1, 2, 3]);
+    expect(set.first()).toBe(1);
+    expect(set.last()).toBe(3);
+  });
+
+  test("has and delete", () => {
+    const set = TreeSet.fromArray([1, 2, 3]);
+    expect(set.has(2)).toBe(true);
+    expect(set.delete(2)).toBe(true);
+    expect(set.delete(2)).toBe(false);
+    expect(set.has(2)).toBe(false);
+    expect(set.toArray()).toEqual([1, 3]);
+  });
+
+  test("clear empties the set", () => {
+    const set = TreeSet.fromArray([1, 2]);
+    set.clear();
+    expect(set.size).toBe(0);
+  });
+});
+
+describe("TreeSet – set algebra", () => {
+  const a = TreeSet.fromArray([1, 2, 3, 4, 5]);
+  const b = TreeSet.fromArray([4, 5, 6, 7]);
+
+  test("union", () => {
+    expect(a.union(b).toArray()).toEqual([1, 2, 3, 4, 5, 6, 7]);
+  });
+
+  test("intersection", () => {
+    expect(a.intersection(b).toArray()).toEqual([4, 5]);
+  });
+
+  test("difference", () => {
+    expect(a.difference(b).toArray()).toEqual([1, 2, 3]);
+    expect(b.difference(a).toArray()).toEqual([6, 7]);
+  });
+
+  test("symmetricDifference", () => {
+    expect(a.symmetricDifference(b).toArray()).toEqual([1, 2, 3, 6, 7]);
+  });
+
+  test("operations do not mutate operands", () => {
+    a.union(b);
+    a.difference(b);
+    expect(a.toArray()).toEqual([1, 2, 3, 4, 5]);
+    expect(b.toArray()).toEqual([4, 5, 6, 7]);
+  });
+
+  test("results stay usable sets", () => {
+    const union = a.union(b);
+    union.add(0);
+    expect(union.first()).toBe(0);
+    expect(union.size).toBe(8);
+  });
+
+  test("operations with empty sets", () => {
+    const empty = new TreeSet<number>();
+    expect(a.union(empty).toArray()).toEqual(a.toArray());
+    expect(a.intersection(empty).size).toBe(0);
+    expect(empty.difference(a).size).toBe(0);
+  });
+
+  test("isSubsetOf and isSupersetOf", () => {
+    const small = TreeSet.fromArray([2, 4]);
+    expect(small.isSubsetOf(a)).toBe(true);
+    expect(a.isSupersetOf(small)).toBe(true);
+    expect(small.isSubsetOf(b)).toBe(false);
+    expect(new TreeSet<number>().isSubsetOf(a)).toBe(true);
+    expect(a.isSubsetOf(small)).toBe(false);
+  });
+
+  test("isDisjointFrom", () => {
+    expect(a.isDisjointFrom(b)).toBe(false);
+    expect(a.isDisjointFrom(TreeSet.fromArray([6, 7]))).toBe(true);
+    expect(a.isDisjointFrom(new TreeSet<number>())).toBe(true);
+  });
+
+  test("respects custom comparators", () => {
+    const byLength = (x: string, y: string) => x.length - y.length;
+    const words = TreeSet.fromArray(["aaa", "b", "cc"], byLength);
+    const others = TreeSet.fromArray(["zz", "yyyy"], byLength);
+
+    expect(words.toArray()).toEqual(["b", "cc", "aaa"]);
+    expect(words.intersection(others).toArray()).toEqual(["cc"]);
+    expect(words.union(others).toArray()).toEqual(["b", "cc", "aaa", "yyyy"]);
+  });
+
+  test("uses the receiver's comparator when the orderings differ", () => {
+    const ascending = TreeSet.fromArray([1, 3, 5, 7]);
+    const descending = TreeSet.fromArray([8, 5, 4, 1], (x, y) => y - x);
+
+    expect(ascending.union(descending).toArray()).toEqual([1, 3, 4, 5, 7, 8]);
+    expect(descending.union(ascending).toArray()).toEqual([8, 7, 5, 4, 3, 1]);
+    expect(ascending.intersection(descending).toArray()).toEqual([1, 5]);
+    expect(ascending.difference(descending).toArray()).toEqual([3, 7]);
+    expect(TreeSet.fromArray([1, 5]).isSubsetOf(descending)).toBe(true);
+    expect(ascending.isDisjointFrom(descending)).toBe(false);
+  });
+
+  test("collapses elements the receiver considers equal", () => {
+    const byLength = TreeSet.fromArray(
+      ["a", "bb"],
+      (x, y) => x.length - y.length,
+    );
+    const words = TreeSet.fromArray(["xx", "yy", "z"]);
+
+    expect(byLength.union(words).toArray()).toEqual(["a", "bb"]);
+    expect(byLength.symmetricDifference(words).toArray()).toEqual([]);
+  });
+});